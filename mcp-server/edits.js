@@ -0,0 +1,152 @@
+// Text edits behind apply_patch, replace_range and search_replace. They work on the
+// file content only, so reading and writing (and the sandbox) stay in server.js.
+
+import { ToolError } from './errors.js';
+
+export function splitLines(text) {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const lines = text.split(/\r?\n/);
+  // A trailing newline yields an empty last element; track it separately
+  const trailingNewline = lines.length > 0 && lines[lines.length - 1] === '';
+  if (trailingNewline) lines.pop();
+  return { lines, eol, trailingNewline };
+}
+
+export function joinLines(lines, eol, trailingNewline) {
+  return lines.join(eol) + (trailingNewline && lines.length ? eol : '');
+}
+
+function stripDiffPrefix(p) {
+  const cleaned = p.split('\t')[0].trim();
+  if (cleaned === '/dev/null') return null;
+  return cleaned.replace(/^[ab]\//, '');
+}
+
+export function parsePatch(patch) {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  let oldPath;
+  let newPath;
+  const hunks = [];
+  let hunk = null;
+  for (const line of lines) {
+    if (line.startsWith('--- ') && !hunk?.remainingOld) {
+      if (oldPath !== undefined && hunks.length) throw new ToolError('INVALID_PATCH', 'apply_patch accepts a patch for one file at a time');
+      oldPath = stripDiffPrefix(line.slice(4));
+      continue;
+    }
+    if (line.startsWith('+++ ') && !hunk?.remainingNew) {
+      newPath = stripDiffPrefix(line.slice(4));
+      continue;
+    }
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldCount: header[2] === undefined ? 1 : Number(header[2]),
+        remainingOld: header[2] === undefined ? 1 : Number(header[2]),
+        remainingNew: header[4] === undefined ? 1 : Number(header[4]),
+        oldLines: [],
+        newLines: []
+      };
+      hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) continue;
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    const tag = line[0];
+    const text = line.slice(1);
+    if (tag === ' ' || (line === '' && hunk.remainingOld > 0 && hunk.remainingNew > 0)) {
+      hunk.oldLines.push(text);
+      hunk.newLines.push(text);
+      hunk.remainingOld--;
+      hunk.remainingNew--;
+    } else if (tag === '-') {
+      hunk.oldLines.push(text);
+      hunk.remainingOld--;
+    } else if (tag === '+') {
+      hunk.newLines.push(text);
+      hunk.remainingNew--;
+    }
+  }
+  if (!hunks.length) throw new ToolError('INVALID_PATCH', 'No hunks found in patch (expected unified diff with "@@ -a,b +c,d @@" headers)');
+  return { oldPath, newPath, hunks };
+}
+
+export function findHunk(lines, oldLines, expected) {
+  const matchesAt = (start) => {
+    if (start < 0 || start + oldLines.length > lines.length) return false;
+    for (let i = 0; i < oldLines.length; i++) {
+      if (lines[start + i] !== oldLines[i]) return false;
+    }
+    return true;
+  };
+  if (matchesAt(expected)) return expected;
+  // The line numbers are often slightly off; search outwards from the expected position
+  for (let delta = 1; delta < lines.length; delta++) {
+    if (matchesAt(expected - delta)) return expected - delta;
+    if (matchesAt(expected + delta)) return expected + delta;
+  }
+  // Last resort: ignore trailing whitespace differences
+  const trimmed = oldLines.map(l => l.trimEnd());
+  for (let start = 0; start + oldLines.length <= lines.length; start++) {
+    if (trimmed.every((l, i) => lines[start + i].trimEnd() === l)) return start;
+  }
+  return -1;
+}
+
+/** Applies a patch from parsePatch() to `original` (null for a new file) and returns the new content. */
+export function applyPatch(original, parsed, target) {
+  const { lines, eol, trailingNewline } = splitLines(original ?? '');
+  let offset = 0;
+  parsed.hunks.forEach((hunk, index) => {
+    // For pure insertions the old start points at the line *before* the insertion
+    const base = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = base + offset;
+    const start = hunk.oldLines.length ? findHunk(lines, hunk.oldLines, expected) : Math.min(Math.max(expected, 0), lines.length);
+    if (start < 0) {
+      const preview = hunk.oldLines.slice(0, 3).map(l => '  ' + l).join('\n');
+      throw new ToolError('HUNK_FAILED', `Hunk ${index + 1} of ${parsed.hunks.length} (${hunk.header}) failed to apply to ${target}: the expected lines were not found near line ${hunk.oldStart}. Expected:\n${preview}\nRead the file again and regenerate the patch.`, { path: target, hunk: index + 1, header: hunk.header });
+    }
+    lines.splice(start, hunk.oldLines.length, ...hunk.newLines);
+    offset = start - base + hunk.newLines.length - hunk.oldLines.length;
+  });
+  return joinLines(lines, eol, original === null ? true : trailingNewline);
+}
+
+/** Replaces lines startLine..endLine (1-based, inclusive) of `original` with `content`. */
+export function replaceRange(original, params) {
+  const { lines, eol, trailingNewline } = splitLines(original);
+  const startLine = Number(params.startLine);
+  const endLine = params.endLine === undefined ? startLine : Number(params.endLine);
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine - 1 || startLine > lines.length + 1) {
+    throw new ToolError('INVALID_RANGE', `Invalid range ${params.startLine}-${params.endLine}: ${params.path} has ${lines.length} lines (lines are 1-based and inclusive; use endLine = startLine - 1 to insert)`, { path: params.path, lineCount: lines.length });
+  }
+  if (endLine > lines.length) {
+    throw new ToolError('INVALID_RANGE', `endLine ${endLine} is past the end of ${params.path} (${lines.length} lines)`, { path: params.path, lineCount: lines.length });
+  }
+  const replacement = params.content ? splitLines(params.content).lines : [];
+  const removed = endLine - startLine + 1;
+  lines.splice(startLine - 1, removed, ...replacement);
+  return { content: joinLines(lines, eol, trailingNewline), removedLines: removed, insertedLines: replacement.length };
+}
+
+/** Replaces an exact snippet of `original`, which has to be unique unless `all` is set. */
+export function searchReplace(original, params) {
+  const search = params.search ?? '';
+  if (!search) throw new ToolError('INVALID_ARGUMENT', 'search_replace requires a non-empty "search" string');
+  const replace = params.replace ?? '';
+  // Match regardless of the file's line endings
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const needle = search.replace(/\r?\n/g, eol);
+  const replacement = replace.replace(/\r?\n/g, eol);
+  const occurrences = original.split(needle).length - 1;
+  if (occurrences === 0) {
+    throw new ToolError('SEARCH_NOT_FOUND', `Search text not found in ${params.path}. It must match the file exactly, including whitespace and indentation.`, { path: params.path });
+  }
+  if (occurrences > 1 && !params.all) {
+    throw new ToolError('AMBIGUOUS_MATCH', `Search text occurs ${occurrences} times in ${params.path}. Include more surrounding context to make it unique, or set "all": true.`, { path: params.path, occurrences });
+  }
+  const content = params.all ? original.split(needle).join(replacement) : original.replace(needle, () => replacement);
+  return { content, replacements: params.all ? occurrences : 1 };
+}
@@ -0,0 +1,8 @@
+/** Error with a stable, machine-readable code (e.g. PATH_OUTSIDE_WORKSPACE) that is sent to the client as `data.code`. */
+export class ToolError extends Error {
+  constructor(code, message, details = {}) {
+    super(message);
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -1,6 +1,8 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import fg from 'fast-glob';
+import { ToolError } from './errors.js';
+import { parsePatch, applyPatch, replaceRange, searchReplace } from './edits.js';
 
 let nextId = 1;
 const pending = new Map();
@@ -11,51 +13,375 @@ function send(result, id) {
 }
 
 function sendError(error, id) {
-  const msg = JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message: String(error) }, id });
+  // `data.code` is a stable, machine-readable reason the client can act on
+  const data = error instanceof ToolError ? { code: error.code, ...error.details } : FS_ERROR_CODES[error?.code] ? { code: FS_ERROR_CODES[error.code], path: error.path } : undefined;
+  const message = error?.message || String(error);
+  const msg = JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message, ...(data ? { data } : {}) }, id });
   process.stdout.write(msg + '\n');
 }
 
-function resolvePath(p) {
-  const root = process.env.WORKSPACE_DIR || process.cwd();
-  if (!p) return root;
-  if (path.isAbsolute(p)) return p;
-  return path.join(root, p);
+const FS_ERROR_CODES = {
+  ENOENT: 'NOT_FOUND',
+  EACCES: 'PERMISSION_DENIED',
+  EPERM: 'PERMISSION_DENIED',
+  EISDIR: 'IS_A_DIRECTORY',
+  ENOTDIR: 'NOT_A_DIRECTORY',
+  EEXIST: 'ALREADY_EXISTS'
+};
+
+// --- Sandbox -------------------------------------------------------------------
+// Every path is canonicalized (including symlinks) and must stay inside one of the
+// workspace folders or one of the extra roots listed in ALLOWED_ROOTS.
+// WORKSPACE_FOLDERS is a JSON array of { name, path } for multi-root workspaces; the
+// first folder is the default for relative paths, others are addressed as "name:path".
+
+let foldersCache = null;
+
+function workspaceFolders() {
+  if (!foldersCache) {
+    let folders = [];
+    try {
+      folders = JSON.parse(process.env.WORKSPACE_FOLDERS || '[]');
+    } catch {}
+    foldersCache = (Array.isArray(folders) ? folders : [])
+      .filter(f => f && f.name && f.path)
+      .map(f => ({ name: String(f.name), path: path.resolve(f.path) }));
+    if (!foldersCache.length) {
+      const dir = path.resolve(process.env.WORKSPACE_DIR || process.cwd());
+      foldersCache = [{ name: path.basename(dir), path: dir }];
+    }
+  }
+  return foldersCache;
+}
+
+let sandboxPromise = null;
+
+/** Canonical folder and extra root paths, resolved once. */
+function sandbox() {
+  if (!sandboxPromise) {
+    const extra = (process.env.ALLOWED_ROOTS || '').split(path.delimiter).filter(Boolean);
+    sandboxPromise = (async () => ({
+      folders: await Promise.all(workspaceFolders().map(async f => ({ name: f.name, path: await realpathOfExisting(f.path) }))),
+      extra: await Promise.all(extra.map(r => realpathOfExisting(path.resolve(r))))
+    }))();
+  }
+  return sandboxPromise;
+}
+
+async function allowedRoots() {
+  const { folders, extra } = await sandbox();
+  return [...folders.map(f => f.path), ...extra];
+}
+
+/** realpath() for paths that may not exist yet: resolves the deepest existing ancestor. */
+async function realpathOfExisting(full) {
+  const missing = [];
+  let current = full;
+  for (;;) {
+    try {
+      const real = await fs.promises.realpath(current);
+      return missing.length ? path.join(real, ...missing.reverse()) : real;
+    } catch (e) {
+      if (e.code !== 'ENOENT' && e.code !== 'ENOTDIR') throw e;
+      const parent = path.dirname(current);
+      if (parent === current) return full;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isInside(root, full) {
+  const rel = path.relative(root, full);
+  return rel === '' || (!rel.startsWith('..' + path.sep) && rel !== '..' && !path.isAbsolute(rel));
+}
+
+/** Resolves a path against its workspace folder (from a "name:" prefix or `folder`) without touching the disk. */
+function locate(p, folder) {
+  const folders = workspaceFolders();
+  let rel = p || '';
+  let name = folder;
+  const prefixed = rel.match(/^([^:\\/]+):(.*)$/);
+  if (prefixed && folders.some(f => f.name === prefixed[1])) {
+    name = prefixed[1];
+    rel = prefixed[2].replace(/^[\\/]+/, '');
+  }
+  let base = folders[0];
+  if (name) {
+    base = folders.find(f => f.name === name);
+    if (!base) {
+      const names = folders.map(f => f.name);
+      throw new ToolError('UNKNOWN_FOLDER', `Unknown workspace folder "${name}". Available folders: ${names.join(', ')}`, { folder: name, folders: names });
+    }
+  }
+  return rel ? path.resolve(base.path, rel) : base.path;
+}
+
+async function resolvePath(p, folder) {
+  const real = await realpathOfExisting(locate(p, folder));
+  const roots = await allowedRoots();
+  if (!roots.some(root => isInside(root, real))) {
+    throw new ToolError('PATH_OUTSIDE_WORKSPACE', `Access denied: ${p} resolves to ${real}, which is outside the workspace. Use paths relative to a workspace folder.`, { path: p, resolved: real });
+  }
+  return real;
+}
+
+/** The workspace folder containing a canonical path, if any. */
+async function folderOf(real) {
+  const { folders } = await sandbox();
+  return folders.find(f => isInside(f.path, real));
+}
+
+async function isAllowed(full) {
+  try {
+    const real = await fs.promises.realpath(full);
+    return (await allowedRoots()).some(root => isInside(root, real));
+  } catch {
+    return false;
+  }
 }
 
 async function read_file(params) {
-  const full = resolvePath(params.path);
+  const full = await resolvePath(params.path, params.folder);
   const maxBytes = params.maxBytes ?? 200000;
   const data = await fs.promises.readFile(full);
   const buf = data.slice(0, maxBytes);
   return { path: full, content: buf.toString('utf8'), truncated: data.length > buf.length };
 }
 
+function buildMatcher(params) {
+  const query = params.query || '';
+  if (!query) return null;
+  const flags = params.ignoreCase ? 'i' : '';
+  if (params.regex) {
+    try {
+      return new RegExp(query, flags);
+    } catch (e) {
+      throw new ToolError('INVALID_ARGUMENT', `Invalid regular expression ${JSON.stringify(query)}: ${e.message}`);
+    }
+  }
+  if (params.ignoreCase) {
+    const needle = query.toLowerCase();
+    return { test: line => line.toLowerCase().includes(needle) };
+  }
+  return { test: line => line.includes(query) };
+}
+
+function clipLine(line, max = 300) {
+  return line.length > max ? line.slice(0, max) + '…' : line;
+}
+
 async function search_workspace(params) {
-  const root = resolvePath(params.root || '.');
+  // Without a root or folder every workspace folder is searched
+  const roots = params.root || params.folder
+    ? [await resolvePath(params.root || '.', params.folder)]
+    : (await sandbox()).folders.map(f => f.path);
   const patterns = params.includeGlobs?.length ? params.includeGlobs : ['**/*.*'];
   const ignore = params.excludeGlobs || ['**/node_modules/**', '**/.git/**', '**/out/**', '**/dist/**'];
-  const files = await fg(patterns, { cwd: root, ignore, absolute: true, dot: false });
-  const results = [];
+  const files = [];
+  for (const root of roots) {
+    files.push(...await fg(patterns, { cwd: root, ignore, absolute: true, dot: false, followSymbolicLinks: false }));
+  }
+  const matcher = buildMatcher(params);
   const query = params.query || '';
   const maxMatches = params.maxMatches ?? 200;
+  const maxMatchesPerFile = params.maxMatchesPerFile ?? 20;
+  const contextLines = Math.max(0, Math.min(params.contextLines ?? 0, 10));
+  const maxResponseBytes = params.maxResponseBytes ?? 60000;
+  const results = [];
+  let totalMatches = 0;
+  let responseBytes = 0;
+  let truncated = false;
 
   for (const file of files) {
+    if (totalMatches >= maxMatches || responseBytes >= maxResponseBytes) { truncated = true; break; }
     try {
+      // Symlinked files may point outside the sandbox
+      if (!(await isAllowed(file))) continue;
       const stat = await fs.promises.stat(file);
       if (stat.size > (params.maxFileBytes ?? 500000)) continue;
-      const text = await fs.promises.readFile(file, 'utf8');
-      if (!query || text.includes(query)) {
+      if (!matcher) {
+        // Without a query this is a plain file listing
         results.push({ file, size: stat.size });
-        if (results.length >= maxMatches) break;
+        responseBytes += file.length + 32;
+        totalMatches++;
+        continue;
+      }
+      const text = await fs.promises.readFile(file, 'utf8');
+      const lines = text.split(/\r?\n/);
+      const matches = [];
+      let matchCount = 0;
+      for (let i = 0; i < lines.length; i++) {
+        if (!matcher.test(lines[i])) continue;
+        matchCount++;
+        if (matches.length >= maxMatchesPerFile || totalMatches >= maxMatches || responseBytes >= maxResponseBytes) {
+          truncated = true;
+          continue;
+        }
+        const match = { line: i + 1, text: clipLine(lines[i]) };
+        if (contextLines > 0) {
+          match.before = lines.slice(Math.max(0, i - contextLines), i).map(l => clipLine(l));
+          match.after = lines.slice(i + 1, i + 1 + contextLines).map(l => clipLine(l));
+        }
+        responseBytes += JSON.stringify(match).length;
+        matches.push(match);
+        totalMatches++;
+      }
+      if (matchCount > 0) {
+        results.push({ file, size: stat.size, matchCount, matches });
       }
     } catch {}
   }
-  return { root, query, results };
+  return { root: roots[0], ...(roots.length > 1 ? { roots } : {}), query, regex: !!params.regex, ignoreCase: !!params.ignoreCase, totalMatches, truncated, results };
+}
+
+
+// --- Navigation ----------------------------------------------------------------
+
+function gitignoreToRegExp(pattern) {
+  let re = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') { re += '(?:.*/)?'; i += 2; } else { re += '.*'; i += 1; }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return re;
+}
+
+/** Parses a .gitignore file into rules relative to the directory that contains it. */
+async function readGitignore(dir) {
+  let text;
+  try {
+    text = await fs.promises.readFile(path.join(dir, '.gitignore'), 'utf8');
+  } catch {
+    return [];
+  }
+  const rules = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    // Patterns containing a slash are anchored to the .gitignore directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    const body = gitignoreToRegExp(line);
+    rules.push({ dir, negate, dirOnly, regex: new RegExp(anchored ? `^${body}(?:/.*)?$` : `(?:^|/)${body}(?:/.*)?$`) });
+  }
+  return rules;
+}
+
+function isIgnored(rules, full, isDir) {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    const rel = path.relative(rule.dir, full).split(path.sep).join('/');
+    if (!rel || rel.startsWith('..')) continue;
+    if (rule.regex.test(rel)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+async function list_directory(params) {
+  const root = await resolvePath(params.path || '.', params.folder);
+  const base = (await folderOf(root))?.path ?? root;
+  const depth = Math.max(1, Math.min(params.depth ?? 1, 5));
+  const maxEntries = params.maxEntries ?? 500;
+  const includeHidden = !!params.includeHidden;
+  const respectGitignore = params.respectGitignore ?? true;
+  const rootStat = await fs.promises.stat(root);
+  if (!rootStat.isDirectory()) throw new ToolError('NOT_A_DIRECTORY', `Not a directory: ${params.path || '.'}`, { path: params.path });
+
+  // Rules from .gitignore files between the workspace folder and the listed directory also apply
+  let inheritedRules = [];
+  if (respectGitignore) {
+    const rel = path.relative(base, root);
+    const chain = [base];
+    if (rel && !rel.startsWith('..') && !path.isAbsolute(rel)) {
+      let current = base;
+      for (const part of rel.split(path.sep).slice(0, -1)) {
+        current = path.join(current, part);
+        chain.push(current);
+      }
+    }
+    for (const dir of chain) {
+      if (dir !== root) inheritedRules = inheritedRules.concat(await readGitignore(dir));
+    }
+  }
+
+  const entries = [];
+  let truncated = false;
+  const walk = async (dir, level, rules) => {
+    if (respectGitignore) rules = rules.concat(await readGitignore(dir));
+    let dirents;
+    try {
+      dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (e) {
+      if (dir === root) throw e;
+      return;
+    }
+    dirents.sort((a, b) => (a.isDirectory() === b.isDirectory() ? a.name.localeCompare(b.name) : a.isDirectory() ? -1 : 1));
+    for (const dirent of dirents) {
+      if (entries.length >= maxEntries) { truncated = true; return; }
+      if (dirent.name === '.git') continue;
+      if (!includeHidden && dirent.name.startsWith('.')) continue;
+      const full = path.join(dir, dirent.name);
+      const isDir = dirent.isDirectory();
+      if (respectGitignore && isIgnored(rules, full, isDir)) continue;
+      const entry = {
+        path: path.relative(root, full).split(path.sep).join('/'),
+        type: isDir ? 'directory' : dirent.isSymbolicLink() ? 'symlink' : 'file'
+      };
+      try {
+        if (entry.type === 'symlink' && !(await isAllowed(full))) throw new Error('outside sandbox');
+        const stat = await fs.promises.stat(full);
+        if (!isDir) entry.size = stat.size;
+        entry.mtime = stat.mtime.toISOString();
+      } catch {}
+      entries.push(entry);
+      if (isDir && level < depth) await walk(full, level + 1, rules);
+    }
+  };
+  await walk(root, 1, inheritedRules);
+  return { path: root, depth, entries, truncated };
 }
 
+async function file_stat(params) {
+  const full = await resolvePath(params.path, params.folder);
+  let stat;
+  try {
+    stat = await fs.promises.stat(full);
+  } catch (e) {
+    if (e.code === 'ENOENT') return { path: full, exists: false };
+    throw e;
+  }
+  // resolvePath() already followed symlinks, so check the path as requested
+  const lstat = await fs.promises.lstat(locate(params.path, params.folder)).catch(() => stat);
+  return {
+    path: full,
+    exists: true,
+    type: stat.isDirectory() ? 'directory' : stat.isFile() ? 'file' : 'other',
+    symlink: lstat.isSymbolicLink(),
+    size: stat.size,
+    mtime: stat.mtime.toISOString(),
+    ctime: stat.ctime.toISOString(),
+    mode: '0' + (stat.mode & 0o777).toString(8)
+  };
+}
 
 async function upsert_file(params) {
-  const full = resolvePath(params.path);
+  const full = await resolvePath(params.path, params.folder);
   const dir = path.dirname(full);
   await fs.promises.mkdir(dir, { recursive: true });
   const content = params.content ?? '';
@@ -64,7 +390,7 @@ async function upsert_file(params) {
 }
 
 async function append_file(params) {
-  const full = resolvePath(params.path);
+  const full = await resolvePath(params.path, params.folder);
   const dir = path.dirname(full);
   await fs.promises.mkdir(dir, { recursive: true });
   const content = params.content ?? '';
@@ -73,13 +399,13 @@ async function append_file(params) {
 }
 
 async function make_dir(params) {
-  const full = resolvePath(params.path);
+  const full = await resolvePath(params.path, params.folder);
   await fs.promises.mkdir(full, { recursive: true });
   return { path: full, status: 'ok' };
 }
 
 async function delete_file(params) {
-  const full = resolvePath(params.path);
+  const full = await resolvePath(params.path, params.folder);
   try {
     await fs.promises.unlink(full);
     return { path: full, status: 'ok' };
@@ -88,7 +414,65 @@ async function delete_file(params) {
   }
 }
 
-const handlers = { read_file, search_workspace, upsert_file, append_file, make_dir, delete_file };
+// --- Surgical edits -----------------------------------------------------------
+// apply_patch, replace_range and search_replace compute the new file content (see
+// edits.js) and write it, or only return it when `dryRun` is set so the caller can preview it.
+// `original` replaces the file's content on disk as the base of the edit, e.g. the
+// unsaved text of an open editor.
+
+async function readTextIfExists(full, original) {
+  if (typeof original === 'string') return original;
+  try {
+    return await fs.promises.readFile(full, 'utf8');
+  } catch (e) {
+    if (e.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+async function writeEdit(full, content, dryRun, summary) {
+  if (!dryRun) {
+    await fs.promises.mkdir(path.dirname(full), { recursive: true });
+    await fs.promises.writeFile(full, content, 'utf8');
+  }
+  return { path: full, status: dryRun ? 'dryRun' : 'ok', bytes: Buffer.byteLength(content, 'utf8'), ...summary, ...(dryRun ? { content } : {}) };
+}
+
+async function apply_patch(params) {
+  if (!params.patch) throw new ToolError('INVALID_ARGUMENT', 'apply_patch requires "patch" (a unified diff)');
+  const parsed = parsePatch(params.patch);
+  if (parsed.newPath === null) throw new ToolError('INVALID_PATCH', 'apply_patch cannot delete files; use delete_file instead');
+  const target = params.path || parsed.newPath || parsed.oldPath;
+  if (!target) throw new ToolError('INVALID_ARGUMENT', 'apply_patch requires "path" when the patch has no file headers');
+  const full = await resolvePath(target, params.folder);
+  const original = await readTextIfExists(full, params.original);
+  if (original === null && parsed.oldPath !== null) throw new ToolError('NOT_FOUND', `File not found: ${target}`, { path: target });
+  const content = applyPatch(original, parsed, target);
+  return writeEdit(full, content, params.dryRun, { hunks: parsed.hunks.length, created: original === null });
+}
+
+async function replace_range(params) {
+  const full = await resolvePath(params.path, params.folder);
+  const original = await readTextIfExists(full, params.original);
+  if (original === null) throw new ToolError('NOT_FOUND', `File not found: ${params.path}`, { path: params.path });
+  const { content, ...summary } = replaceRange(original, params);
+  return writeEdit(full, content, params.dryRun, summary);
+}
+
+async function search_replace(params) {
+  const full = await resolvePath(params.path, params.folder);
+  const original = await readTextIfExists(full, params.original);
+  if (original === null) throw new ToolError('NOT_FOUND', `File not found: ${params.path}`, { path: params.path });
+  const { content, ...summary } = searchReplace(original, params);
+  return writeEdit(full, content, params.dryRun, summary);
+}
+
+// Lets the extension validate paths for writes it performs itself (e.g. upsert_file via the diff preview)
+async function resolve_path(params) {
+  return { path: await resolvePath(params.path, params.folder) };
+}
+
+const handlers = { resolve_path, read_file, search_workspace, upsert_file, append_file, make_dir, delete_file, apply_patch, replace_range, search_replace, list_directory, file_stat };
 
 process.stdin.setEncoding('utf8');
 let buffer = '';
@@ -104,12 +488,12 @@ process.stdin.on('data', chunk => {
       const { id, method, params } = msg;
       const fn = handlers[method];
       if (!fn) {
-        sendError(`Unknown method: ${method}`, id);
+        sendError(new ToolError('UNKNOWN_METHOD', `Unknown method: ${method}`), id);
         continue;
       }
       Promise.resolve(fn(params || {}))
         .then(res => send(res, id))
-        .catch(err => sendError(err?.message || String(err), id));
+        .catch(err => sendError(err, id));
     } catch (e) {
       // ignore malformed lines
     }
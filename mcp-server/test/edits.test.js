@@ -0,0 +1,124 @@
+import * as assert from 'node:assert/strict';
+import { parsePatch, findHunk, applyPatch, replaceRange, searchReplace } from '../edits.js';
+
+const FILE = 'one\ntwo\nthree\nfour\nfive\n';
+
+suite('parsePatch', () => {
+  test('reads file headers and hunks', () => {
+    const parsed = parsePatch('--- a/src/x.ts\n+++ b/src/x.ts\n@@ -2,2 +2,2 @@\n two\n-three\n+THREE\n');
+    assert.equal(parsed.oldPath, 'src/x.ts');
+    assert.equal(parsed.newPath, 'src/x.ts');
+    assert.equal(parsed.hunks.length, 1);
+    assert.deepEqual(parsed.hunks[0].oldLines, ['two', 'three']);
+    assert.deepEqual(parsed.hunks[0].newLines, ['two', 'THREE']);
+  });
+
+  test('treats /dev/null as a missing side', () => {
+    const parsed = parsePatch('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+hello\n');
+    assert.equal(parsed.oldPath, null);
+    assert.equal(parsed.newPath, 'new.txt');
+  });
+
+  test('rejects patches without hunks', () => {
+    assert.throws(() => parsePatch('just text'), { code: 'INVALID_PATCH' });
+  });
+
+  test('rejects patches for more than one file', () => {
+    const patch = '--- a/x\n+++ b/x\n@@ -1 +1 @@\n-one\n+ONE\n--- a/y\n+++ b/y\n@@ -1 +1 @@\n-one\n+ONE\n';
+    assert.throws(() => parsePatch(patch), { code: 'INVALID_PATCH' });
+  });
+});
+
+suite('findHunk', () => {
+  const lines = ['a', 'b', 'c', 'b', 'c'];
+
+  test('prefers the expected position', () => {
+    assert.equal(findHunk(lines, ['b', 'c'], 3), 3);
+  });
+
+  test('searches around a wrong line number', () => {
+    assert.equal(findHunk(lines, ['a', 'b'], 3), 0);
+  });
+
+  test('ignores trailing whitespace as a last resort', () => {
+    assert.equal(findHunk(['x', 'y  '], ['y'], 0), 1);
+  });
+
+  test('returns -1 when the lines are not there', () => {
+    assert.equal(findHunk(lines, ['z'], 0), -1);
+  });
+});
+
+suite('applyPatch', () => {
+  test('applies hunks with approximate line numbers', () => {
+    const parsed = parsePatch('@@ -5,2 +5,2 @@\n two\n-three\n+THREE\n@@ -10,1 +10,2 @@\n five\n+six\n');
+    assert.equal(applyPatch(FILE, parsed, 'x'), 'one\ntwo\nTHREE\nfour\nfive\nsix\n');
+  });
+
+  test('keeps CRLF line endings', () => {
+    const parsed = parsePatch('@@ -1 +1 @@\n-one\n+ONE\n');
+    assert.equal(applyPatch('one\r\ntwo\r\n', parsed, 'x'), 'ONE\r\ntwo\r\n');
+  });
+
+  test('creates new files', () => {
+    const parsed = parsePatch('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+hello\n+world\n');
+    assert.equal(applyPatch(null, parsed, 'new.txt'), 'hello\nworld\n');
+  });
+
+  test('reports the hunk that does not match', () => {
+    const parsed = parsePatch('@@ -1 +1 @@\n-one\n+ONE\n@@ -3 +3 @@\n-missing\n+x\n');
+    assert.throws(() => applyPatch(FILE, parsed, 'x'), { code: 'HUNK_FAILED', details: { path: 'x', hunk: 2, header: '@@ -3 +3 @@' } });
+  });
+});
+
+suite('replaceRange', () => {
+  test('replaces an inclusive line range', () => {
+    const result = replaceRange(FILE, { path: 'x', startLine: 2, endLine: 3, content: 'TWO' });
+    assert.equal(result.content, 'one\nTWO\nfour\nfive\n');
+    assert.equal(result.removedLines, 2);
+    assert.equal(result.insertedLines, 1);
+  });
+
+  test('inserts before startLine when endLine is startLine - 1', () => {
+    assert.equal(replaceRange(FILE, { path: 'x', startLine: 1, endLine: 0, content: 'zero' }).content, 'zero\none\ntwo\nthree\nfour\nfive\n');
+  });
+
+  test('appends after the last line', () => {
+    assert.equal(replaceRange(FILE, { path: 'x', startLine: 6, endLine: 5, content: 'six' }).content, FILE + 'six\n');
+  });
+
+  test('deletes lines when content is empty', () => {
+    assert.equal(replaceRange(FILE, { path: 'x', startLine: 1, endLine: 4, content: '' }).content, 'five\n');
+  });
+
+  test('rejects ranges outside the file', () => {
+    assert.throws(() => replaceRange(FILE, { path: 'x', startLine: 0, endLine: 1 }), { code: 'INVALID_RANGE' });
+    assert.throws(() => replaceRange(FILE, { path: 'x', startLine: 4, endLine: 9 }), { code: 'INVALID_RANGE' });
+    assert.throws(() => replaceRange(FILE, { path: 'x', startLine: 3, endLine: 1 }), { code: 'INVALID_RANGE' });
+  });
+});
+
+suite('searchReplace', () => {
+  test('replaces a unique snippet', () => {
+    const result = searchReplace(FILE, { path: 'x', search: 'two\nthree', replace: '2\n3' });
+    assert.equal(result.content, 'one\n2\n3\nfour\nfive\n');
+    assert.equal(result.replacements, 1);
+  });
+
+  test('matches across CRLF line endings', () => {
+    assert.equal(searchReplace('a\r\nb\r\n', { path: 'x', search: 'a\nb', replace: 'c\nd' }).content, 'c\r\nd\r\n');
+  });
+
+  test('does not expand $ patterns in the replacement', () => {
+    assert.equal(searchReplace('price', { path: 'x', search: 'price', replace: '$&$1' }).content, '$&$1');
+  });
+
+  test('requires a unique match unless all is set', () => {
+    assert.throws(() => searchReplace('a a', { path: 'x', search: 'a', replace: 'b' }), { code: 'AMBIGUOUS_MATCH' });
+    assert.deepEqual(searchReplace('a a', { path: 'x', search: 'a', replace: 'b', all: true }), { content: 'b b', replacements: 2 });
+  });
+
+  test('reports missing snippets', () => {
+    assert.throws(() => searchReplace(FILE, { path: 'x', search: 'six', replace: '' }), { code: 'SEARCH_NOT_FOUND' });
+  });
+});
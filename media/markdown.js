@@ -0,0 +1,308 @@
+// Minimal Markdown renderer for the chat webview.
+// All text is HTML-escaped before any markup is produced, and only a fixed set of
+// tags is ever emitted, so model output can't inject HTML or scripts.
+(function () {
+  'use strict';
+
+  function escapeHtml(text) {
+    return String(text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Syntax highlighting
+
+  const KEYWORDS = {
+    js: 'async await break case catch class const continue debugger default delete do else export extends finally for from function if import in instanceof let new of return static super switch this throw try typeof var void while with yield',
+    ts: 'abstract as async await break case catch class const continue declare default delete do else enum export extends finally for from function get if implements import in infer instanceof interface is keyof let namespace new of private protected public readonly return set static super switch this throw try type typeof var void while with yield',
+    py: 'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield',
+    go: 'break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var',
+    rust: 'as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while',
+    java: 'abstract assert break case catch class const continue default do else enum extends final finally for goto if implements import instanceof interface native new package private protected public return static strictfp super switch synchronized this throw throws transient try void volatile while var record',
+    c: 'auto break case char const continue default do double else enum extern float for goto if inline int long register return short signed sizeof static struct switch typedef union unsigned void volatile while class namespace template typename public private protected virtual override new delete using',
+    sh: 'if then else elif fi for while until do done case esac in function return local export set unset echo exit',
+    sql: 'select from where insert into values update set delete create table alter drop index join left right inner outer on group by order having limit offset as and or not null is in like distinct union all primary key foreign references',
+    rb: 'alias and begin break case class def defined do else elsif end ensure false for if in module next nil not or redo rescue retry return self super then true undef unless until when while yield'
+  };
+
+  const LANGUAGE_ALIASES = {
+    javascript: 'js', jsx: 'js', mjs: 'js', cjs: 'js',
+    typescript: 'ts', tsx: 'ts',
+    python: 'py',
+    golang: 'go',
+    rs: 'rust',
+    kotlin: 'java', kt: 'java', scala: 'java', csharp: 'c', cs: 'c', 'c#': 'c', cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', swift: 'java',
+    bash: 'sh', shell: 'sh', zsh: 'sh', console: 'sh', powershell: 'sh', ps1: 'sh',
+    ruby: 'rb',
+    mysql: 'sql', postgres: 'sql', postgresql: 'sql', sqlite: 'sql'
+  };
+
+  const LITERALS = /^(true|false|null|undefined|None|True|False|nil|NaN|Infinity)$/;
+
+  function languageKey(lang) {
+    const l = (lang || '').toLowerCase();
+    return LANGUAGE_ALIASES[l] || l;
+  }
+
+  function tokenRegex(key) {
+    const hashComments = ['py', 'sh', 'rb', 'yaml', 'yml', 'toml', 'dockerfile', 'makefile', 'r'].includes(key);
+    const sqlComments = key === 'sql';
+    const parts = [
+      hashComments ? '#[^\\n]*' : (sqlComments ? '--[^\\n]*' : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/'),
+      key === 'py' ? '"""[\\s\\S]*?"""|\'\'\'[\\s\\S]*?\'\'\'' : null,
+      '"(?:\\\\.|[^"\\\\\\n])*"',
+      '\'(?:\\\\.|[^\'\\\\\\n])*\'',
+      '`(?:\\\\.|[^`\\\\])*`',
+      '\\b\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?\\b|\\b0x[0-9a-fA-F]+\\b',
+      '[A-Za-z_$][\\w$]*'
+    ].filter(Boolean);
+    return new RegExp(parts.join('|'), 'g');
+  }
+
+  function highlight(code, lang) {
+    const key = languageKey(lang);
+    const keywords = KEYWORDS[key];
+    if (!keywords && !['json', 'yaml', 'yml', 'toml', 'css', 'scss', 'html', 'xml'].includes(key)) {
+      return escapeHtml(code);
+    }
+    const keywordSet = new Set((keywords || '').split(' '));
+    const re = tokenRegex(key);
+    let out = '';
+    let last = 0;
+    let m;
+    while ((m = re.exec(code)) !== null) {
+      const token = m[0];
+      if (!token) { re.lastIndex++; continue; }
+      out += escapeHtml(code.slice(last, m.index));
+      let cls = null;
+      const c = token[0];
+      if (token.startsWith('//') || token.startsWith('/*') || (c === '#' && key !== 'css') || token.startsWith('--')) cls = 'tok-comment';
+      else if (c === '"' || c === '\'' || c === '`') cls = 'tok-string';
+      else if (/^\d/.test(token)) cls = 'tok-number';
+      else if (LITERALS.test(token)) cls = 'tok-literal';
+      else if (keywordSet.has(key === 'sql' ? token.toLowerCase() : token)) cls = 'tok-keyword';
+      else if (code.charAt(re.lastIndex) === '(') cls = 'tok-function';
+      out += cls ? '<span class="' + cls + '">' + escapeHtml(token) + '</span>' : escapeHtml(token);
+      last = re.lastIndex;
+    }
+    return out + escapeHtml(code.slice(last));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Inline markup
+
+  function safeUrl(url) {
+    const trimmed = url.trim();
+    return /^(https?:|mailto:)/i.test(trimmed) ? trimmed : null;
+  }
+
+  function renderInline(text) {
+    // Code spans are cut out first so their content is never interpreted
+    const codeSpans = [];
+    let src = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, function (_, ticks, code) {
+      codeSpans.push('<code>' + escapeHtml(code.trim()) + '</code>');
+      return '\u0000' + (codeSpans.length - 1) + '\u0000';
+    });
+
+    const links = [];
+    src = src.replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, function (whole, label, url) {
+      const href = safeUrl(url);
+      if (!href) return whole;
+      links.push('<a href="' + escapeHtml(href) + '" title="' + escapeHtml(href) + '">' + renderEmphasis(escapeHtml(label)) + '</a>');
+      return '\u0001' + (links.length - 1) + '\u0001';
+    });
+
+    src = src.replace(/\bhttps?:\/\/[^\s<>\u0000\u0001]+[^\s<>.,;:!?)\]'"\u0000\u0001]/g, function (url) {
+      links.push('<a href="' + escapeHtml(url) + '">' + escapeHtml(url) + '</a>');
+      return '\u0001' + (links.length - 1) + '\u0001';
+    });
+
+    let html = renderEmphasis(escapeHtml(src));
+    html = html.replace(/\u0001(\d+)\u0001/g, function (_, i) { return links[Number(i)]; });
+    html = html.replace(/\u0000(\d+)\u0000/g, function (_, i) { return codeSpans[Number(i)]; });
+    return html;
+  }
+
+  function renderEmphasis(html) {
+    return html
+      .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+      .replace(/__(?=\S)([\s\S]*?\S)__/g, '<strong>$1</strong>')
+      .replace(/(^|[^*\w])\*(?=\S)([^*]*?\S)\*(?!\w)/g, '$1<em>$2</em>')
+      .replace(/(^|[^_\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+      .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Blocks
+
+  const FENCE = /^(\s*)(`{3,}|~{3,})\s*([^`\s]*)\s*(.*)$/;
+  const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+  const HR = /^\s*([-*_])(\s*\1){2,}\s*$/;
+  const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+  const TABLE_SEPARATOR = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+
+  function splitRow(line) {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.slice(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+    return row.split(/(?<!\\)\|/).map(function (cell) { return cell.trim().replace(/\\\|/g, '|'); });
+  }
+
+  function renderCodeBlock(code, lang, info) {
+    const cls = lang ? ' class="language-' + escapeHtml(lang) + '"' : '';
+    return '<pre data-lang="' + escapeHtml(lang || '') + '" data-info="' + escapeHtml(info || '') + '"><code' + cls + '>' + highlight(code, lang) + '</code></pre>';
+  }
+
+  function renderList(lines) {
+    // lines all belong to one list; nesting is derived from indentation
+    const first = lines[0].match(LIST_ITEM);
+    const ordered = /\d/.test(first[2]);
+    const baseIndent = first[1].length;
+    const start = ordered ? parseInt(first[2], 10) : 1;
+    let html = ordered ? (start !== 1 ? '<ol start="' + start + '">' : '<ol>') : '<ul>';
+    let item = null;
+    const flush = function () {
+      if (!item) return;
+      const nested = item.children.length ? renderBlocks(item.children) : '';
+      let body = renderInline(item.text.join('\n')).replace(/\n/g, '<br>');
+      const task = body.match(/^\[([ xX])\]\s+/);
+      if (task) body = '<input type="checkbox" disabled' + (task[1] !== ' ' ? ' checked' : '') + '> ' + body.slice(task[0].length);
+      html += '<li>' + body + nested + '</li>';
+      item = null;
+    };
+    for (const line of lines) {
+      const m = line.match(LIST_ITEM);
+      if (m && m[1].length <= baseIndent + 1) {
+        flush();
+        item = { text: [m[3]], children: [] };
+      } else if (item) {
+        const stripped = line.slice(Math.min(line.length - line.trimStart().length, baseIndent + 2));
+        if (item.children.length || LIST_ITEM.test(line) || FENCE.test(line)) item.children.push(stripped);
+        else item.text.push(line.trim());
+      }
+    }
+    flush();
+    return html + (ordered ? '</ol>' : '</ul>');
+  }
+
+  function renderBlocks(lines) {
+    let html = '';
+    let i = 0;
+    let paragraph = [];
+    const flushParagraph = function () {
+      if (paragraph.length) {
+        html += '<p>' + renderInline(paragraph.join('\n')).replace(/\n/g, '<br>') + '</p>';
+        paragraph = [];
+      }
+    };
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      const fence = line.match(FENCE);
+      if (fence) {
+        flushParagraph();
+        const marker = fence[2];
+        const body = [];
+        i++;
+        while (i < lines.length && !(lines[i].trim().startsWith(marker) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+          body.push(lines[i].startsWith(fence[1]) ? lines[i].slice(fence[1].length) : lines[i]);
+          i++;
+        }
+        i++; // closing fence (or end of input while streaming)
+        html += renderCodeBlock(body.join('\n'), fence[3], fence[4]);
+        continue;
+      }
+
+      if (!line.trim()) { flushParagraph(); i++; continue; }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        flushParagraph();
+        const level = heading[1].length;
+        html += '<h' + level + '>' + renderInline(heading[2]) + '</h' + level + '>';
+        i++;
+        continue;
+      }
+
+      if (HR.test(line) && !paragraph.length) {
+        html += '<hr>';
+        i++;
+        continue;
+      }
+
+      if (/^\s*>/.test(line)) {
+        flushParagraph();
+        const quoted = [];
+        while (i < lines.length && /^\s*>/.test(lines[i])) {
+          quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+          i++;
+        }
+        html += '<blockquote>' + renderBlocks(quoted) + '</blockquote>';
+        continue;
+      }
+
+      if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+        flushParagraph();
+        const header = splitRow(line);
+        const aligns = splitRow(lines[i + 1]).map(function (cell) {
+          if (/^:-+:$/.test(cell)) return 'center';
+          if (/-+:$/.test(cell)) return 'right';
+          if (/^:-+/.test(cell)) return 'left';
+          return '';
+        });
+        const cellAttr = function (idx) { return aligns[idx] ? ' style="text-align:' + aligns[idx] + '"' : ''; };
+        html += '<table><thead><tr>' + header.map(function (c, idx) { return '<th' + cellAttr(idx) + '>' + renderInline(c) + '</th>'; }).join('') + '</tr></thead><tbody>';
+        i += 2;
+        while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+          const cells = splitRow(lines[i]);
+          html += '<tr>' + header.map(function (_, idx) { return '<td' + cellAttr(idx) + '>' + renderInline(cells[idx] || '') + '</td>'; }).join('') + '</tr>';
+          i++;
+        }
+        html += '</tbody></table>';
+        continue;
+      }
+
+      if (LIST_ITEM.test(line) && (!paragraph.length || line.match(LIST_ITEM)[1].length === 0)) {
+        flushParagraph();
+        const baseIndent = line.match(LIST_ITEM)[1].length;
+        const ordered = /\d/.test(line.match(LIST_ITEM)[2]);
+        const listLines = [];
+        while (i < lines.length) {
+          const l = lines[i];
+          if (!l.trim()) {
+            // A blank line ends the list unless the next line continues it
+            const next = lines[i + 1];
+            if (next !== undefined && (LIST_ITEM.test(next) || /^\s{2,}\S/.test(next))) { i++; continue; }
+            break;
+          }
+          const indent = l.length - l.trimStart().length;
+          const item = l.match(LIST_ITEM);
+          if (indent < baseIndent) break;
+          // Switching between bullets and numbers at the same level starts a new list
+          if (item && indent <= baseIndent + 1 && /\d/.test(item[2]) !== ordered) break;
+          if (indent <= baseIndent && !item && (HEADING.test(l) || FENCE.test(l) || /^\s*>/.test(l))) break;
+          listLines.push(l);
+          i++;
+        }
+        html += renderList(listLines);
+        continue;
+      }
+
+      paragraph.push(line);
+      i++;
+    }
+    flushParagraph();
+    return html;
+  }
+
+  function render(markdown) {
+    return renderBlocks(String(markdown || '').replace(/\r\n?/g, '\n').split('\n'));
+  }
+
+  window.AgentMarkdown = { render: render, escapeHtml: escapeHtml, highlight: highlight };
+})();
@@ -3,17 +3,29 @@ import { OpenAIService } from './services/openAIService';
 import { ConfigurationService } from './services/configurationService';
 import { EditorService } from './services/editorService';
 import { SuggestionService } from './services/suggestionService';
+import { DiffPreviewService } from './services/diffPreviewService';
+import { CompletionService } from './services/completionService';
+import { DiagnosticsService } from './services/diagnosticsService';
+import { CheckpointService } from './services/checkpointService';
+import { PROVIDER_LABELS } from './services/modelProviders';
+import { ConversationStore, StoredConversation } from './services/conversationStore';
 import { ChatViewProvider } from './panels/chatViewProvider';
+import { logger } from './services/logger';
 
 export async function activate(context: vscode.ExtensionContext) {
-  console.log('OpenAI Agent extension is now active');
-  
   // Initialize services
   const configService = new ConfigurationService(context);
-  const openAIService = new OpenAIService(configService, context.extensionUri.fsPath);
-  const editorService = new EditorService();
-  const suggestionService = new SuggestionService(openAIService, editorService);
-  const chatViewProvider = new ChatViewProvider(openAIService, configService, context.extensionUri);
+  context.subscriptions.push(logger.initialize(configService));
+  logger.info(`OpenAI Agent ${context.extension?.packageJSON?.version ?? ''} activated (VS Code ${vscode.version})`);
+  const diffPreviewService = new DiffPreviewService();
+  const conversationStore = new ConversationStore(context.globalStorageUri);
+  const diagnosticsService = new DiagnosticsService();
+  const checkpointService = new CheckpointService(configService);
+  const openAIService = new OpenAIService(configService, context.extensionUri.fsPath, diffPreviewService, conversationStore, diagnosticsService, checkpointService);
+  const editorService = new EditorService(diffPreviewService);
+  const completionService = new CompletionService(openAIService, configService);
+  const suggestionService = new SuggestionService(openAIService, editorService, completionService, configService);
+  const chatViewProvider = new ChatViewProvider(openAIService, configService, editorService, context.extensionUri);
   
   // Register commands
   const enableCommand = vscode.commands.registerCommand('vscode-openai-agent.enable', () => {
@@ -27,15 +39,16 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   
   const setApiKeyCommand = vscode.commands.registerCommand('vscode-openai-agent.setApiKey', async () => {
+    const provider = configService.getProviderId();
     const apiKey = await vscode.window.showInputBox({
-      prompt: 'Enter your OpenAI API key',
+      prompt: `Enter your ${PROVIDER_LABELS[provider]} API key`,
       password: true,
       ignoreFocusOut: true
     });
     
     if (apiKey) {
-      await configService.setApiKey(apiKey);
-      vscode.window.showInformationMessage('OpenAI API key has been set');
+      await configService.setApiKey(apiKey, provider);
+      vscode.window.showInformationMessage(`${PROVIDER_LABELS[provider]} API key has been set`);
       
       // Initialize the OpenAI service with the new API key
       try {
@@ -58,12 +71,12 @@ export async function activate(context: vscode.ExtensionContext) {
   
 
   const askCommand = vscode.commands.registerCommand('vscode-openai-agent.ask', async () => {
-    suggestionService.setMode('ask');
+    await configService.setMode('ask');
     await suggestionService.askAtCursor();
   });
   const reloadMcpCommand = vscode.commands.registerCommand('vscode-openai-agent.reloadMcp', async () => {
     try {
-      await openAIService.initialize();
+      await openAIService.reloadMcpServers();
       vscode.window.showInformationMessage('MCP servers reloaded');
     } catch (e: any) {
       vscode.window.showErrorMessage('Failed to reload MCP servers: ' + (e?.message || e));
@@ -77,10 +90,109 @@ export async function activate(context: vscode.ExtensionContext) {
   });
 
   const setModeCommand = vscode.commands.registerCommand('vscode-openai-agent.setMode', async (mode: 'agent' | 'ask') => {
-    suggestionService.setMode(mode);
+    await configService.setMode(mode);
     vscode.window.showInformationMessage(`OpenAI Agent mode: ${mode}`);
   });
 
+  const searchConversationsCommand = vscode.commands.registerCommand('vscode-openai-agent.searchConversations', async () => {
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { threadId: string }>();
+    quickPick.placeholder = 'Search all chat threads';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    let searchSeq = 0;
+    quickPick.onDidChangeValue(async value => {
+      const seq = ++searchSeq;
+      quickPick.busy = true;
+      const results = await conversationStore.search(value);
+      if (seq !== searchSeq) return;
+      quickPick.items = results.map(r => ({
+        label: `${r.role === 'user' ? '$(account)' : '$(sparkle)'} ${r.threadName || r.threadId.slice(0, 12)}`,
+        description: `message ${r.messageIndex + 1}`,
+        detail: r.snippet,
+        threadId: r.threadId
+      }));
+      quickPick.busy = false;
+    });
+    quickPick.onDidAccept(async () => {
+      const selected = quickPick.selectedItems[0];
+      quickPick.hide();
+      if (!selected) return;
+      if (!configService.getThreads().includes(selected.threadId)) {
+        await configService.setThreads([...configService.getThreads(), selected.threadId]);
+      }
+      await chatViewProvider.showThread(selected.threadId);
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  });
+
+  const exportConversationCommand = vscode.commands.registerCommand('vscode-openai-agent.exportConversation', async () => {
+    const conversations = await conversationStore.list();
+    if (conversations.length === 0) {
+      vscode.window.showInformationMessage('There are no stored chat threads to export');
+      return;
+    }
+    const active = openAIService.getActiveThreadId();
+    const picked = await vscode.window.showQuickPick(
+      conversations
+        .sort((a, b) => (a.id === active ? -1 : b.id === active ? 1 : 0))
+        .map(c => ({ label: c.name || c.id, description: `${c.messages.length} messages${c.id === active ? ' · active' : ''}`, conversation: c })),
+      { placeHolder: 'Select the thread to export' }
+    );
+    if (!picked) return;
+    const format = await vscode.window.showQuickPick(['Markdown', 'JSON'], { placeHolder: 'Export format' });
+    if (!format) return;
+    const conversation: StoredConversation = picked.conversation;
+    const extension = format === 'JSON' ? 'json' : 'md';
+    const baseName = (conversation.name || conversation.id).replace(/[^\w.-]+/g, '_');
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(vscode.workspace.workspaceFolders?.[0]?.uri || context.globalStorageUri, `${baseName}.${extension}`),
+      filters: format === 'JSON' ? { 'JSON': ['json'] } : { 'Markdown': ['md'] }
+    });
+    if (!target) return;
+    const text = format === 'JSON' ? conversationStore.toJson(conversation) : conversationStore.toMarkdown(conversation);
+    await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf8'));
+    vscode.window.showInformationMessage(`Thread exported to ${target.fsPath}`);
+  });
+
+  const importConversationCommand = vscode.commands.registerCommand('vscode-openai-agent.importConversation', async () => {
+    const files = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'Exported threads': ['json', 'md'] },
+      openLabel: 'Import'
+    });
+    if (!files || files.length === 0) return;
+    try {
+      const text = Buffer.from(await vscode.workspace.fs.readFile(files[0])).toString('utf8');
+      const data = conversationStore.parseExport(text, files[0].path.endsWith('.json') ? 'json' : 'markdown');
+      const id = await openAIService.importConversation(data);
+      await chatViewProvider.showThread(id);
+      vscode.window.showInformationMessage(`Imported ${data.messages.length} messages`);
+    } catch (e: any) {
+      vscode.window.showErrorMessage('Failed to import thread: ' + (e?.message || e));
+    }
+  });
+
+  const fixProblemsCommand = vscode.commands.registerCommand('vscode-openai-agent.fixProblems', async (uri?: vscode.Uri) => {
+    const document = uri ? await vscode.workspace.openTextDocument(uri) : editorService.getTargetEditor()?.document;
+    if (!document) {
+      vscode.window.showWarningMessage('Open a file to fix its problems');
+      return;
+    }
+    const prompt = diagnosticsService.buildFixPrompt(document);
+    if (!prompt) {
+      vscode.window.showInformationMessage(`No errors or warnings in ${vscode.workspace.asRelativePath(document.uri)}`);
+      return;
+    }
+    await chatViewProvider.submitPrompt(prompt);
+  });
+
+  const showLogsCommand = vscode.commands.registerCommand('vscode-openai-agent.showLogs', () => logger.show());
+
+  const revertLastRunCommand = vscode.commands.registerCommand('vscode-openai-agent.revertLastRun', async (checkpointId?: string) => {
+    return await checkpointService.confirmAndRevert(typeof checkpointId === 'string' ? checkpointId : undefined);
+  });
+
   // Register completions provider
   const completionProvider = vscode.languages.registerCompletionItemProvider(
     { pattern: '**' },
@@ -107,7 +219,17 @@ export async function activate(context: vscode.ExtensionContext) {
     reloadMcpCommand,
     showPanelCommand,
     setModeCommand,
+    searchConversationsCommand,
+    exportConversationCommand,
+    importConversationCommand,
+    fixProblemsCommand,
+    revertLastRunCommand,
+    showLogsCommand,
     completionProvider,
+    diffPreviewService.register(),
+    { dispose: () => openAIService.dispose() },
+    // Restart the tool server and update the assistant so added or removed folders become (in)accessible
+    vscode.workspace.onDidChangeWorkspaceFolders(() => openAIService.onWorkspaceFoldersChanged()),
     vscode.window.registerWebviewViewProvider(ChatViewProvider.viewId, chatViewProvider),
     vscode.window.registerWebviewViewProvider(ChatViewProvider.panelViewId, chatViewProvider)
   );
@@ -117,7 +239,7 @@ export async function activate(context: vscode.ExtensionContext) {
   }
   
   // Check if API key is set
-  if (!(await configService.getApiKey())) {
+  if (!(await configService.hasCredentials())) {
     vscode.window.showWarningMessage(
       'OpenAI API key is not set. Please set your API key to use the OpenAI Agent',
       'Set API Key'
@@ -137,5 +259,5 @@ export async function activate(context: vscode.ExtensionContext) {
 }
 
 export function deactivate() {
-  console.log('OpenAI Agent extension is now deactivated');
+  logger.info('OpenAI Agent deactivated');
 }
@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
-import { OpenAIService } from '../services/openAIService';
+import { randomBytes } from 'crypto';
+import { OpenAIService, RunCancelledError } from '../services/openAIService';
+import { CheckpointInfo } from '../services/checkpointService';
 import { ConfigurationService } from '../services/configurationService';
+import { EditorService } from '../services/editorService';
+import { logger } from '../services/logger';
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewId = 'openaiAgent.chatView';
@@ -8,12 +12,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private openAI: OpenAIService;
   private configService: ConfigurationService;
+  private editorService: EditorService;
   private extensionUri: vscode.Uri;
   private isProcessing: boolean = false;
+  private postThreads?: () => Promise<void>;
+  /** Whether the view's script is listening and has loaded the thread history */
+  private webviewReady = false;
+  private pendingPrompts: string[] = [];
 
-  constructor(openAI: OpenAIService, configService: ConfigurationService, extensionUri: vscode.Uri) {
+  constructor(openAI: OpenAIService, configService: ConfigurationService, editorService: EditorService, extensionUri: vscode.Uri) {
     this.openAI = openAI;
     this.configService = configService;
+    this.editorService = editorService;
     this.extensionUri = extensionUri;
   }
 
@@ -25,6 +35,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
   async resolveWebviewView(webviewView: vscode.WebviewView): Promise<void> {
     this._view = webviewView;
+    this.webviewReady = false;
     this.openAI.setView(webviewView);
     webviewView.webview.options = {
       enableScripts: true,
@@ -39,30 +50,49 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       // Load history for active thread with a small delay to avoid conflicts
       if (info.active) {
         const activeThreadId = info.active;
-        setTimeout(async () => {
-          try {
-            const history = await this.openAI.getThreadHistory(activeThreadId);
-            webviewView.webview.postMessage({ type: 'loadHistory', history });
-          } catch (error: any) {
-            console.error('Failed to load thread history:', error);
-            webviewView.webview.postMessage({ type: 'error', message: 'Failed to load chat history' });
-          }
-        }, 100);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        try {
+          const history = await this.openAI.getThreadHistory(activeThreadId);
+          webviewView.webview.postMessage({ type: 'loadHistory', history });
+        } catch (error: any) {
+          logger.error('Failed to load thread history:', error);
+          webviewView.webview.postMessage({ type: 'error', message: 'Failed to load chat history' });
+        }
       }
     };
 
-    try { await this.openAI.initialize(); } catch {}
-    await postThreads();
+    this.postThreads = postThreads;
+    // Not awaited before the message handler is registered, so no message from the view is missed
+    const initialized = (async () => {
+      try { await this.openAI.initialize(); } catch {}
+      await postThreads();
+    })();
 
     webviewView.onDidChangeVisibility(() => {
       if (webviewView.visible) {
         postThreads();
+      } else if (this._view === webviewView) {
+        // Hidden views drop messages and reload their script when shown, which reports ready again
+        this.webviewReady = false;
       }
     });
 
+    const modeListener = this.configService.onDidChangeMode(mode => {
+      webviewView.webview.postMessage({ type: 'modeChanged', mode });
+    });
+    webviewView.onDidDispose(() => {
+      modeListener.dispose();
+      if (this._view === webviewView) this.webviewReady = false;
+    });
+
     webviewView.webview.onDidReceiveMessage(async msg => {
       if (!msg || !msg.type) return;
-      if (msg.type === 'sendPrompt') {
+      if (msg.type === 'ready') {
+        await initialized;
+        if (this._view !== webviewView) return;
+        this.webviewReady = true;
+        this.flushPrompts();
+      } else if (msg.type === 'sendPrompt') {
         const prompt: string = msg.prompt || '';
         const files: any[] = msg.files || [];
         if (!prompt.trim() && files.length === 0) return;
@@ -72,11 +102,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           try {
             await this.openAI.cancelCurrentRun();
           } catch (error) {
-            console.warn('Failed to cancel previous run:', error);
+            logger.warn('Failed to cancel previous run:', error);
           }
         }
         
         this.isProcessing = true;
+        let checkpoint: CheckpointInfo | undefined;
         try {
           // Show initial thinking
           const thinkingContent = files.length > 0 
@@ -87,7 +118,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           // Create enhanced prompt with file information and content
           let enhancedPrompt = prompt;
           if (files.length > 0) {
-            console.log('Processing files:', files);
+            logger.debug('Processing attached files:', files.map(f => `${f.name} (${f.type}, ${f.size} bytes)`));
             let fileSections: string[] = [];
             
             files.forEach(file => {
@@ -112,10 +143,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             if (this.isProcessing) {
               webviewView.webview.postMessage({ type: 'updateThinking', content: thinkingStep });
             }
-          });
+          }, (delta: string) => {
+            if (this.isProcessing) {
+              webviewView.webview.postMessage({ type: 'delta', content: delta });
+            }
+          }, info => { checkpoint = info; });
           
           // Always send the response, regardless of isProcessing state
-          webviewView.webview.postMessage({ type: 'append', role: 'assistant', content: res || '(no content)' });
+          webviewView.webview.postMessage({ type: 'append', role: 'assistant', content: res || '(no content)', checkpoint });
           
           // Auto-generate thread name from first message if thread is new
           const info = this.openAI.getThreadInfo();
@@ -125,8 +160,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             await postThreads();
           }
         } catch (e: any) {
+          // The webview already reported the stop, no need for an error message
+          if (e instanceof RunCancelledError) {
+            if (checkpoint) webviewView.webview.postMessage({ type: 'runCheckpoint', checkpoint });
+            return;
+          }
+          logger.error('Chat request failed:', e);
           // Always send error, regardless of isProcessing state
-          webviewView.webview.postMessage({ type: 'error', message: e?.message || String(e) });
+          webviewView.webview.postMessage({ type: 'error', message: e?.message || String(e), checkpoint });
         } finally {
           this.isProcessing = false;
         }
@@ -163,8 +204,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           this.isProcessing = false;
           webviewView.webview.postMessage({ type: 'thinking', content: 'Switching threads...' });
         }
+        // The assistant is created on the first message if the thread needs one
         await this.openAI.setActiveThread(msg.id);
-        try { await this.openAI.initialize(); } catch {}
         await postThreads();
         webviewView.webview.postMessage({ type: 'clear' });
       } else if (msg.type === 'setThreadName') {
@@ -176,30 +217,27 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         try {
           await this.openAI.cancelCurrentRun();
         } catch (error) {
-          console.warn('Failed to cancel OpenAI run:', error);
+          logger.warn('Failed to cancel OpenAI run:', error);
         }
       } else if (msg.type === 'setMode') {
-        // Call the setMode command
+        // The select is updated through onDidChangeMode, like changes made by the commands
         vscode.commands.executeCommand('vscode-openai-agent.setMode', msg.mode);
-        // Send mode change confirmation to the webview
-        webviewView.webview.postMessage({ type: 'modeChanged', mode: msg.mode });
       } else if (msg.type === 'setModel') {
-        console.log('Setting model to:', msg.model);
+        logger.info('Setting model to:', msg.model);
         // Update the model setting
         await this.configService.setModel(msg.model);
-        console.log('Model saved to config, current model:', this.configService.getModel());
         // Update the assistant with the new model
         try {
           await this.openAI.updateAssistantModel();
-          console.log('Assistant model updated successfully');
         } catch (error) {
-          console.error('Error updating assistant model:', error);
+          logger.error('Error updating assistant model:', error);
         }
         webviewView.webview.postMessage({ type: 'modelChanged', model: msg.model });
       } else if (msg.type === 'getCurrentModel') {
         // Send current model to webview
         const currentModel = this.configService.getModel();
         webviewView.webview.postMessage({ type: 'modelChanged', model: currentModel });
+        webviewView.webview.postMessage({ type: 'modeChanged', mode: this.configService.getMode() });
       } else if (msg.type === 'getSessionCost') {
         // Send current session cost to webview
         const sessionCost = this.openAI.getSessionCost();
@@ -208,15 +246,74 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         // Reset session cost
         this.openAI.resetSessionCost();
         webviewView.webview.postMessage({ type: 'sessionCost', cost: 0 });
+      } else if (msg.type === 'insertCode' || msg.type === 'replaceSelection' || msg.type === 'applyToFile' || msg.type === 'copyCode') {
+        await this.handleCodeAction(msg);
+      } else if (msg.type === 'revertCheckpoint') {
+        const reverted = await vscode.commands.executeCommand<boolean>('vscode-openai-agent.revertLastRun', msg.id);
+        if (reverted) webviewView.webview.postMessage({ type: 'checkpointReverted', id: msg.id });
       }
     });
   }
 
+  /** Runs one of the code-block buttons of the webview against the editor. */
+  private async handleCodeAction(msg: any): Promise<void> {
+    const code: string = msg.code || '';
+    try {
+      if (msg.type === 'insertCode') {
+        await this.editorService.insertAtCursor(code);
+      } else if (msg.type === 'replaceSelection') {
+        await this.editorService.replaceSelection(code);
+      } else if (msg.type === 'applyToFile') {
+        const target = await vscode.window.showInputBox({
+          prompt: 'Apply the code block to file (relative to the workspace root)',
+          value: msg.path || '',
+          ignoreFocusOut: true
+        });
+        if (!target) return;
+        if (await this.editorService.applyToFile(target, code)) {
+          vscode.window.showInformationMessage(`Applied code to ${target}`);
+        }
+      } else if (msg.type === 'copyCode') {
+        await this.editorService.copyToClipboard(code);
+        this.sendMessage('codeCopied', { id: msg.id });
+      }
+    } catch (e: any) {
+      vscode.window.showErrorMessage(e?.message || String(e));
+    }
+  }
+
+  /**
+   * Sends a prompt as if the user had typed it, e.g. from the "Fix Problems" command.
+   * Until the view is ready (it may only be created by the focus) the prompt is queued.
+   */
+  public async submitPrompt(prompt: string): Promise<void> {
+    this.pendingPrompts.push(prompt);
+    await vscode.commands.executeCommand(`${ChatViewProvider.viewId}.focus`);
+    this.flushPrompts();
+  }
+
+  private flushPrompts(): void {
+    if (!this._view || !this.webviewReady) return;
+    for (const prompt of this.pendingPrompts.splice(0)) this.sendMessage('submitPrompt', { prompt });
+  }
+
+  /** Switches the chat view to the given thread, e.g. after a search or an import. */
+  public async showThread(threadId: string): Promise<void> {
+    await this.openAI.setActiveThread(threadId);
+    await vscode.commands.executeCommand(`${ChatViewProvider.viewId}.focus`);
+    if (this.postThreads) {
+      await this.postThreads();
+    }
+  }
+
   private getHtml(webview: vscode.Webview): string {
     const addIcon = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'add_macos.svg')).toString();
     const clearIcon = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'clear_macos.svg')).toString();
     const deleteIcon = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'close_macos.svg')).toString();
-    const csp = `default-src 'none'; img-src ${webview.cspSource} https:; style-src 'unsafe-inline' ${webview.cspSource}; script-src 'nonce-abc123' ${webview.cspSource};`;
+    const markdownScript = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'markdown.js')).toString();
+    // Scripts only run with the per-load nonce; data: images are needed for pasted image previews
+    const nonce = randomBytes(16).toString('base64');
+    const csp = `default-src 'none'; img-src ${webview.cspSource} https: data:; style-src 'unsafe-inline' ${webview.cspSource}; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};`;
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -314,6 +411,92 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     border-top: 1px solid var(--vscode-panel-border);
     margin: 12px 0;
   }
+  .msg-text.markdown { white-space: normal; }
+  .code-block { position: relative; }
+  .code-block pre { padding-top: 28px; }
+  .code-actions {
+    position: absolute;
+    top: 4px;
+    right: 6px;
+    display: flex;
+    gap: 4px;
+    opacity: 0.6;
+  }
+  .code-block:hover .code-actions { opacity: 1; }
+  .code-actions button {
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+    border: none;
+    border-radius: 3px;
+    padding: 1px 6px;
+    font-size: 11px;
+    cursor: pointer;
+  }
+  .code-actions button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+  .tool-calls { margin: 4px 0 6px; display: flex; flex-direction: column; gap: 3px; }
+  .tool-call {
+    border: 1px solid var(--vscode-panel-border);
+    border-radius: 3px;
+    font-size: 11px;
+  }
+  .tool-call summary {
+    display: flex;
+    gap: 6px;
+    align-items: baseline;
+    padding: 2px 6px;
+    cursor: pointer;
+    white-space: nowrap;
+    overflow: hidden;
+  }
+  .tool-call .tool-status { color: var(--vscode-testing-iconPassed, var(--vscode-foreground)); }
+  .tool-call.running .tool-status { color: var(--vscode-descriptionForeground); }
+  .tool-call.failed .tool-status { color: var(--vscode-errorForeground); }
+  .tool-call .tool-name { font-family: var(--vscode-editor-font-family); font-weight: 600; }
+  .tool-call .tool-brief { color: var(--vscode-descriptionForeground); overflow: hidden; text-overflow: ellipsis; }
+  .tool-call .tool-duration { margin-left: auto; color: var(--vscode-descriptionForeground); }
+  .tool-call .tool-section { padding: 4px 6px 0; color: var(--vscode-descriptionForeground); }
+  .tool-call pre {
+    margin: 2px 6px 6px;
+    padding: 4px 6px;
+    max-height: 200px;
+    overflow: auto;
+    white-space: pre-wrap;
+    word-break: break-all;
+  }
+  .revert-run {
+    margin-top: 6px;
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+    border: none;
+    border-radius: 3px;
+    padding: 2px 8px;
+    font-size: 11px;
+    cursor: pointer;
+  }
+  .revert-run:hover:not(:disabled) { background: var(--vscode-button-secondaryHoverBackground); }
+  .revert-run:disabled { opacity: 0.6; cursor: default; }
+  .msg-text.markdown > :first-child { margin-top: 0; }
+  .msg-text.markdown > :last-child { margin-bottom: 0; }
+  .msg-text p { margin: 6px 0; }
+  .msg-text ul, .msg-text ol { margin: 6px 0; padding-left: 20px; }
+  .msg-text li { margin: 2px 0; }
+  .msg-text blockquote {
+    margin: 8px 0;
+    padding: 2px 10px;
+    border-left: 3px solid var(--vscode-textBlockQuote-border);
+    background: var(--vscode-textBlockQuote-background);
+  }
+  .msg-text table { border-collapse: collapse; margin: 8px 0; display: block; overflow-x: auto; }
+  .msg-text th, .msg-text td { border: 1px solid var(--vscode-panel-border); padding: 4px 8px; }
+  .msg-text th { background: var(--vscode-editorWidget-background); font-weight: 600; }
+  .msg-text a { color: var(--vscode-textLink-foreground); }
+  .msg-text pre code { white-space: pre; }
+  .tok-keyword { color: var(--vscode-debugTokenExpression-name, #569cd6); }
+  .tok-string { color: var(--vscode-debugTokenExpression-string, #ce9178); }
+  .tok-number { color: var(--vscode-debugTokenExpression-number, #b5cea8); }
+  .tok-literal { color: var(--vscode-debugTokenExpression-boolean, #569cd6); }
+  .tok-comment { color: var(--vscode-descriptionForeground, #6a9955); font-style: italic; }
+  .tok-function { color: var(--vscode-symbolIcon-functionForeground, #dcdcaa); }
   .attached-files {
     display: flex;
     flex-wrap: wrap;
@@ -697,7 +880,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   <div class="paste-hint">
     💡 Tip: You can paste images directly with Ctrl+V
   </div>
-  <script nonce="abc123">
+  <script nonce="${nonce}" src="${markdownScript}"></script>
+  <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
     const messages = document.getElementById('messages');
     const form = document.getElementById('form');
@@ -933,12 +1117,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       const loadingEl = document.createElement('div');
       loadingEl.className = 'loading';
       
-      let stopButtonHtml = '';
+      const spinner = document.createElement('div');
+      spinner.className = 'loading-spinner';
+      const textEl = document.createElement('span');
+      textEl.className = 'loading-text';
+      textEl.textContent = text;
+      loadingEl.appendChild(spinner);
+      loadingEl.appendChild(textEl);
+      
       if (showStopButton) {
-        stopButtonHtml = '<button class="loading-stop" onclick="stopAI()">Stop</button>';
+        // Inline handlers are blocked by the CSP
+        const stopBtn = document.createElement('button');
+        stopBtn.className = 'loading-stop';
+        stopBtn.textContent = 'Stop';
+        stopBtn.addEventListener('click', stopAI);
+        loadingEl.appendChild(stopBtn);
       }
-      
-      loadingEl.innerHTML = '<div class="loading-spinner"></div><span class="loading-text">' + text + '</span>' + stopButtonHtml;
       messages.appendChild(loadingEl);
       
       if (blockForm) {
@@ -958,9 +1152,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       console.log('stopAI called');
       hideLoading();
       removeThinking();
+      finishStreaming(true);
+      finishToolCalls();
       setFormEnabled(true);
       vscode.postMessage({ type: 'stopAI' });
       append('assistant', 'Operation stopped by user', true);
+      messages.lastElementChild.classList.add('stopped');
     }
 
     function setFormEnabled(enabled) {
@@ -1016,10 +1213,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     function renderHistory(history = []){
       clearUI();
       // History is passed from server, not from local state
-      history.forEach(m => append(m.role, m.content, false));
+      history.forEach(m => append(m.role, m.content, false, [], m.toolCalls));
     }
 
-    function append(role, content, save=true, files=[]) {
+    function append(role, content, save=true, files=[], toolCalls=[]) {
       const el = document.createElement('div');
       el.className = 'msg ' + role;
       
@@ -1032,9 +1229,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       
       const textDiv = document.createElement('div');
       textDiv.className = 'msg-text';
-      textDiv.innerHTML = content;
+      renderText(textDiv, role, content);
       
       contentDiv.appendChild(roleDiv);
+      if (toolCalls && toolCalls.length > 0) {
+        const list = document.createElement('div');
+        list.className = 'tool-calls';
+        toolCalls.forEach(call => list.appendChild(renderToolCall(document.createElement('details'), call)));
+        contentDiv.appendChild(list);
+      }
       contentDiv.appendChild(textDiv);
       
       // Add file attachments if any
@@ -1072,6 +1275,70 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       // Local state is only used for UI state and thinking process
     }
 
+    // Lets the user undo every file change of the run that produced this answer
+    function addRevertButton(el, checkpoint) {
+      if (!el || !checkpoint.files || checkpoint.files.length === 0) return;
+      const btn = document.createElement('button');
+      btn.className = 'revert-run';
+      btn.dataset.id = checkpoint.id;
+      const count = checkpoint.files.length;
+      btn.textContent = 'Revert changes (' + count + (count === 1 ? ' file)' : ' files)');
+      btn.title = checkpoint.files.join('\\n');
+      btn.addEventListener('click', () => {
+        vscode.postMessage({ type: 'revertCheckpoint', id: checkpoint.id });
+      });
+      el.querySelector('.msg-content').appendChild(btn);
+    }
+
+    // Assistant output is rendered as sanitized Markdown, user input is shown verbatim
+    function renderText(textDiv, role, content) {
+      if (role === 'assistant' && window.AgentMarkdown) {
+        textDiv.classList.add('markdown');
+        textDiv.innerHTML = window.AgentMarkdown.render(content);
+        textDiv.querySelectorAll('pre').forEach(addCodeActions);
+      } else {
+        textDiv.textContent = content;
+      }
+    }
+
+    const CODE_ACTIONS = [
+      { type: 'insertCode', label: 'Insert', title: 'Insert at cursor' },
+      { type: 'replaceSelection', label: 'Replace', title: 'Replace selection (with diff preview)' },
+      { type: 'applyToFile', label: 'Apply', title: 'Apply to file (with diff preview)' },
+      { type: 'copyCode', label: 'Copy', title: 'Copy to clipboard' }
+    ];
+    let nextCodeBlockId = 1;
+
+    function addCodeActions(pre) {
+      const wrapper = document.createElement('div');
+      wrapper.className = 'code-block';
+      wrapper.dataset.id = String(nextCodeBlockId++);
+      pre.parentNode.insertBefore(wrapper, pre);
+      wrapper.appendChild(pre);
+
+      const actions = document.createElement('div');
+      actions.className = 'code-actions';
+      CODE_ACTIONS.forEach(action => {
+        const btn = document.createElement('button');
+        btn.textContent = action.label;
+        btn.title = action.title;
+        btn.dataset.action = action.type;
+        btn.addEventListener('click', () => {
+          const code = pre.querySelector('code') ? pre.querySelector('code').textContent : pre.textContent;
+          vscode.postMessage({ type: action.type, code, path: codeBlockPath(pre), id: wrapper.dataset.id });
+        });
+        actions.appendChild(btn);
+      });
+      wrapper.appendChild(actions);
+    }
+
+    // A file name may follow the language in the fence, e.g. "ts src/app.ts" or "ts title=src/app.ts"
+    function codeBlockPath(pre) {
+      const info = (pre.dataset.info || '').trim();
+      const match = info.match(/^(?:title|file|path)=["']?([^"'\\s]+)/) || info.match(/^([^\\s=]+[./][^\\s=]+)$/);
+      return match ? match[1] : '';
+    }
+
     function appendThinking(content) {
       const el = document.createElement('div');
       el.className = 'thinking';
@@ -1105,6 +1372,143 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
     }
 
+    // Tool calls of the running request are collected above the thinking indicator and
+    // moved into the answer once it arrives
+    function upsertToolCall(call) {
+      let card = call.id ? messages.querySelector('.tool-call[data-id="' + call.id + '"]') : null;
+      if (!card) {
+        let list = messages.querySelector('.tool-calls.pending');
+        if (!list) {
+          list = document.createElement('div');
+          list.className = 'tool-calls pending';
+          messages.insertBefore(list, messages.querySelector('.msg.streaming') || messages.querySelector('.thinking'));
+        }
+        card = document.createElement('details');
+        list.appendChild(card);
+      }
+      renderToolCall(card, call);
+      messages.scrollTop = messages.scrollHeight;
+    }
+
+    function renderToolCall(card, call) {
+      const open = card.open;
+      card.className = 'tool-call' + (call.status === 'running' ? ' running' : call.error ? ' failed' : '');
+      if (call.id) card.dataset.id = call.id;
+      card.innerHTML = '';
+
+      const summary = document.createElement('summary');
+      const status = document.createElement('span');
+      status.className = 'tool-status';
+      status.textContent = call.status === 'running' ? '…' : call.error ? '✗' : '✓';
+      const name = document.createElement('span');
+      name.className = 'tool-name';
+      name.textContent = call.name;
+      const brief = document.createElement('span');
+      brief.className = 'tool-brief';
+      brief.textContent = toolCallBrief(call.arguments);
+      summary.append(status, name, brief);
+      if (call.durationMs !== undefined) {
+        const duration = document.createElement('span');
+        duration.className = 'tool-duration';
+        duration.textContent = call.durationMs < 1000 ? call.durationMs + ' ms' : (call.durationMs / 1000).toFixed(1) + ' s';
+        summary.appendChild(duration);
+      }
+      card.appendChild(summary);
+
+      addToolSection(card, 'Arguments', JSON.stringify(call.arguments ?? {}, null, 2));
+      if (call.error) addToolSection(card, 'Error', call.error);
+      if (call.result !== undefined) addToolSection(card, 'Result', formatToolResult(call.result));
+      card.open = open;
+      return card;
+    }
+
+    function addToolSection(card, title, text) {
+      const heading = document.createElement('div');
+      heading.className = 'tool-section';
+      heading.textContent = title;
+      const pre = document.createElement('pre');
+      pre.textContent = text;
+      card.append(heading, pre);
+    }
+
+    // The most telling argument, shown next to the tool name
+    function toolCallBrief(args) {
+      if (!args || typeof args !== 'object') return '';
+      const value = args.path || args.command || args.query || args.uri || '';
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return text.length > 60 ? text.slice(0, 57) + '...' : text;
+    }
+
+    function formatToolResult(result) {
+      try {
+        return JSON.stringify(JSON.parse(result), null, 2);
+      } catch {
+        // Truncated results are no longer valid JSON
+        return result;
+      }
+    }
+
+    // Keeps the cards of a stopped or failed request where they are
+    function finishToolCalls() {
+      const list = messages.querySelector('.tool-calls.pending');
+      if (!list) return;
+      list.classList.remove('pending');
+      list.querySelectorAll('.tool-call.running .tool-status').forEach(el => { el.textContent = '–'; });
+    }
+
+    // Rendering the whole Markdown again on every delta gets slow for long replies,
+    // so streamed text is re-rendered at most every STREAM_RENDER_MS
+    const STREAM_RENDER_MS = 100;
+    let streamText = '';
+    let streamRenderTimer = null;
+
+    function renderStreaming() {
+      streamRenderTimer = null;
+      const textEl = messages.querySelector('.msg.streaming .msg-text');
+      if (!textEl) return;
+      renderText(textEl, 'assistant', streamText);
+      messages.scrollTop = messages.scrollHeight;
+    }
+
+    // Streamed text goes into a temporary message kept above the thinking indicator
+    function appendDelta(content) {
+      let textEl = messages.querySelector('.msg.streaming .msg-text');
+      if (!textEl) {
+        const el = document.createElement('div');
+        el.className = 'msg assistant streaming';
+        const contentDiv = document.createElement('div');
+        contentDiv.className = 'msg-content';
+        const roleDiv = document.createElement('div');
+        roleDiv.className = 'msg-role';
+        roleDiv.textContent = 'AI:';
+        textEl = document.createElement('div');
+        textEl.className = 'msg-text';
+        contentDiv.appendChild(roleDiv);
+        contentDiv.appendChild(textEl);
+        el.appendChild(contentDiv);
+        messages.insertBefore(el, messages.querySelector('.thinking'));
+        streamText = '';
+      }
+      streamText += content;
+      if (!streamRenderTimer) streamRenderTimer = setTimeout(renderStreaming, STREAM_RENDER_MS);
+    }
+
+    function finishStreaming(keep) {
+      const streamingEl = messages.querySelector('.msg.streaming');
+      if (streamRenderTimer) {
+        clearTimeout(streamRenderTimer);
+        // A kept partial reply shows everything that arrived
+        if (keep) renderStreaming();
+        streamRenderTimer = null;
+      }
+      if (!streamingEl) return;
+      if (keep) {
+        streamingEl.classList.remove('streaming');
+      } else {
+        streamingEl.remove();
+      }
+    }
+
     window.addEventListener('message', (event) => {
       const msg = event.data;
       if (msg.type === 'append') {
@@ -1114,7 +1518,38 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         removeThinking();
         console.log('About to call setFormEnabled(true)');
         setFormEnabled(true);
+        finishStreaming(false);
+        const pendingTools = messages.querySelector('.tool-calls.pending');
         append(msg.role, msg.content, true);
+        if (pendingTools) {
+          pendingTools.classList.remove('pending');
+          const text = messages.lastElementChild.querySelector('.msg-text');
+          text.parentNode.insertBefore(pendingTools, text);
+        }
+        if (msg.checkpoint) addRevertButton(messages.lastElementChild, msg.checkpoint);
+      } else if (msg.type === 'submitPrompt') {
+        prompt.value = msg.prompt || '';
+        form.dispatchEvent(new Event('submit', { cancelable: true }));
+      } else if (msg.type === 'toolCall') {
+        if (msg.call) upsertToolCall(msg.call);
+      } else if (msg.type === 'checkpointReverted') {
+        const btn = messages.querySelector('.revert-run[data-id="' + msg.id + '"]');
+        if (btn) {
+          btn.textContent = 'Changes reverted';
+          btn.disabled = true;
+        }
+      } else if (msg.type === 'codeCopied') {
+        const btn = messages.querySelector('.code-block[data-id="' + msg.id + '"] button[data-action="copyCode"]');
+        if (btn) {
+          btn.textContent = 'Copied';
+          setTimeout(() => { btn.textContent = 'Copy'; }, 1500);
+        }
+      } else if (msg.type === 'delta') {
+        hideLoading();
+        setFormEnabled(false);
+        if (msg.content) {
+          appendDelta(msg.content);
+        }
       } else if (msg.type === 'thinking') {
         hideLoading();
         setFormEnabled(false);
@@ -1128,8 +1563,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       } else if (msg.type === 'error') {
         hideLoading();
         removeThinking();
+        finishStreaming(true);
+        finishToolCalls();
         setFormEnabled(true);
         append('assistant', 'Error: ' + msg.message, true);
+        if (msg.checkpoint) addRevertButton(messages.lastElementChild, msg.checkpoint);
+      } else if (msg.type === 'runCheckpoint') {
+        // A stopped run may already have changed files
+        const stopped = messages.querySelectorAll('.msg.assistant.stopped');
+        addRevertButton(stopped.length ? stopped[stopped.length - 1] : messages.lastElementChild, msg.checkpoint);
       } else if (msg.type === 'threads') {
         const ids = (msg.info && msg.info.threads) || [];
         const active = (msg.info && msg.info.active) || null;
@@ -1390,6 +1832,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     // Initial resize
     autoResize();
+
+    // Everything is wired up: prompts queued by commands can be delivered now
+    vscode.postMessage({ type: 'ready' });
   </script>
 </body>
 </html>`;
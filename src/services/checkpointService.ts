@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { ConfigurationService } from './configurationService';
+import { logger } from './logger';
+
+interface FileSnapshot {
+  uri: vscode.Uri;
+  content?: Uint8Array;
+  isDirectory?: boolean;
+  /** Set when the path did not exist before the run, so reverting removes what the run created */
+  created?: 'file' | 'directory';
+}
+
+export interface Checkpoint {
+  id: string;
+  startedAt: number;
+  threadId?: string;
+  files: FileSnapshot[];
+}
+
+export interface CheckpointInfo {
+  id: string;
+  startedAt: number;
+  threadId?: string;
+  files: string[];
+}
+
+/**
+ * Records what the files an agent run touches looked like before its first change,
+ * so the whole run can be reverted at once. Only the last runs that changed files
+ * are kept (openaiAgent.checkpoints.maxRuns), in memory for the current session.
+ */
+export class CheckpointService {
+  private configService: ConfigurationService;
+  private checkpoints: Checkpoint[] = [];
+  private nextId = 1;
+
+  constructor(configService: ConfigurationService) {
+    this.configService = configService;
+  }
+
+  /**
+   * Starts the checkpoint of a run. The returned handle is passed to snapshot() and
+   * endRun(), so a run that is still finishing after Stop can't mix with the next one.
+   */
+  public beginRun(threadId?: string): Checkpoint {
+    return { id: `run-${this.nextId++}`, startedAt: Date.now(), threadId, files: [] };
+  }
+
+  /** Keeps the checkpoint of the finished run if it touched any file. Returns its summary. */
+  public endRun(checkpoint: Checkpoint): CheckpointInfo | undefined {
+    if (checkpoint.files.length === 0) return undefined;
+    this.checkpoints.push(checkpoint);
+    const maxRuns = Math.max(1, this.configService.getCheckpointMaxRuns());
+    if (this.checkpoints.length > maxRuns) this.checkpoints.splice(0, this.checkpoints.length - maxRuns);
+    return this.toInfo(checkpoint);
+  }
+
+  /**
+   * Snapshots a file (or directory) unless the run already did. Does nothing outside a run.
+   * kind tells what the write creates when the path does not exist yet; missing parent
+   * directories are recorded as created too, since the write tools create them.
+   */
+  public async snapshot(checkpoint: Checkpoint | undefined, uri: vscode.Uri, kind: 'file' | 'directory' = 'file'): Promise<void> {
+    if (!checkpoint || this.find(checkpoint, uri)) return;
+    const snapshot: FileSnapshot = { uri };
+    // Registered before awaiting so parallel calls don't snapshot the file twice
+    checkpoint.files.push(snapshot);
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.type & vscode.FileType.Directory) {
+        snapshot.isDirectory = true;
+      } else {
+        // Unsaved editor changes are what the user sees, and edits of dirty files build on them
+        const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        snapshot.content = open?.isDirty ? Buffer.from(open.getText(), 'utf8') : await vscode.workspace.fs.readFile(uri);
+      }
+      return;
+    } catch {
+      snapshot.created = kind;
+    }
+    // Reverting goes newest first, so parents have to come before the path
+    const missing: FileSnapshot[] = [];
+    let child = uri;
+    for (let dir = vscode.Uri.joinPath(uri, '..'); dir.path !== child.path; child = dir, dir = vscode.Uri.joinPath(dir, '..')) {
+      if (this.find(checkpoint, dir) || await this.exists(dir)) break;
+      missing.unshift({ uri: dir, created: 'directory' });
+    }
+    checkpoint.files.splice(checkpoint.files.indexOf(snapshot), 0, ...missing);
+  }
+
+  /** Asks for confirmation, then reverts the given run, or the latest one. Returns true when reverted. */
+  public async confirmAndRevert(id?: string): Promise<boolean> {
+    const checkpoint = id ? this.checkpoints.find(c => c.id === id) : this.checkpoints[this.checkpoints.length - 1];
+    if (!checkpoint) {
+      vscode.window.showInformationMessage(id ? 'This agent run can no longer be reverted' : 'No agent run to revert');
+      return false;
+    }
+    const files = checkpoint.files.map(f => vscode.workspace.asRelativePath(f.uri));
+    const listed = files.slice(0, 10).join('\n') + (files.length > 10 ? `\n… and ${files.length - 10} more` : '');
+    const choice = await vscode.window.showWarningMessage(
+      `Revert ${files.length === 1 ? '1 file' : `${files.length} files`} changed by the agent run?\n\n${listed}`,
+      { modal: true },
+      'Revert'
+    );
+    if (choice !== 'Revert') return false;
+
+    const { failed, kept } = await this.revert(checkpoint);
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(`Could not revert: ${failed.join(', ')}`);
+    } else if (kept.length > 0) {
+      vscode.window.showWarningMessage(`Reverted the agent run but kept directories that now contain other files: ${kept.join(', ')}`);
+    } else {
+      vscode.window.showInformationMessage(`Reverted ${files.length === 1 ? '1 file' : `${files.length} files`}`);
+    }
+    return true;
+  }
+
+  /**
+   * Restores every snapshot of a checkpoint and drops it. Returns the paths that failed
+   * and the created directories that were kept because something else was put into them.
+   */
+  private async revert(checkpoint: Checkpoint): Promise<{ failed: string[]; kept: string[] }> {
+    const failed: string[] = [];
+    const kept: string[] = [];
+    // Newest first so files created inside new directories go before the directories
+    for (const file of [...checkpoint.files].reverse()) {
+      try {
+        if (file.content) {
+          await this.restore(file.uri, file.content);
+        } else if (file.created === 'directory') {
+          if (!(await this.removeIfEmpty(file.uri))) kept.push(vscode.workspace.asRelativePath(file.uri));
+        } else if (file.created === 'file') {
+          await this.deleteIfExists(file.uri);
+        }
+      } catch (e: any) {
+        logger.warn('Failed to revert', file.uri.fsPath, e);
+        failed.push(vscode.workspace.asRelativePath(file.uri));
+      }
+    }
+    this.checkpoints = this.checkpoints.filter(c => c !== checkpoint);
+    return { failed, kept };
+  }
+
+  /** Writes through a WorkspaceEdit when the file is open so the editor stays in sync and the revert is undoable. */
+  private async restore(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (open && await this.exists(uri)) {
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(uri, new vscode.Range(open.positionAt(0), open.positionAt(open.getText().length)), Buffer.from(content).toString('utf8'));
+      if (await vscode.workspace.applyEdit(edit)) {
+        await open.save();
+        return;
+      }
+    }
+    await vscode.workspace.fs.writeFile(uri, content);
+  }
+
+  /** Deletes a file the run created. Goes to the trash in case the user has worked on it since. */
+  private async deleteIfExists(uri: vscode.Uri): Promise<void> {
+    if (await this.exists(uri)) await vscode.workspace.fs.delete(uri, { recursive: false, useTrash: true });
+  }
+
+  /** Removes a directory the run created unless it holds anything. Returns false when it was kept. */
+  private async removeIfEmpty(uri: vscode.Uri): Promise<boolean> {
+    if (!(await this.exists(uri))) return true;
+    if ((await vscode.workspace.fs.readDirectory(uri)).length > 0) return false;
+    await vscode.workspace.fs.delete(uri, { recursive: false, useTrash: false });
+    return true;
+  }
+
+  private find(checkpoint: Checkpoint, uri: vscode.Uri): FileSnapshot | undefined {
+    return checkpoint.files.find(f => f.uri.toString() === uri.toString());
+  }
+
+  private async exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private toInfo(checkpoint: Checkpoint): CheckpointInfo {
+    return {
+      id: checkpoint.id,
+      startedAt: checkpoint.startedAt,
+      threadId: checkpoint.threadId,
+      files: checkpoint.files.map(f => vscode.workspace.asRelativePath(f.uri))
+    };
+  }
+}
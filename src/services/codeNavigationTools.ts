@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import { ToolRegistry } from './toolRegistry';
+import { WorkspaceSandbox } from './workspaceSandbox';
+
+const MAX_SNIPPET_CHARS = 200;
+const DEFAULT_MAX_RESULTS = 100;
+
+const POSITION_PARAMETERS = {
+  path: { type: 'string', description: 'File containing the symbol' },
+  line: { type: 'number', description: '1-based line' },
+  column: { type: 'number', description: '1-based column of (any character of) the symbol' }
+};
+
+interface NavigationLocation {
+  path: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  snippet: string;
+}
+
+interface OutlineSymbol {
+  name: string;
+  kind: string;
+  detail?: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  children?: OutlineSymbol[];
+}
+
+/** Opens each document once per tool call to read snippet lines. */
+class LineCache {
+  private documents = new Map<string, Promise<vscode.TextDocument | undefined>>();
+
+  async get(uri: vscode.Uri, line: number): Promise<string> {
+    const key = uri.toString();
+    if (!this.documents.has(key)) {
+      this.documents.set(key, Promise.resolve(vscode.workspace.openTextDocument(uri)).catch(() => undefined));
+    }
+    const document = await this.documents.get(key);
+    if (!document || line >= document.lineCount) return '';
+    return document.lineAt(line).text.trim().slice(0, MAX_SNIPPET_CHARS);
+  }
+}
+
+/**
+ * Code navigation through the language servers (vscode.execute*Provider), so the
+ * assistant can follow definitions and call sites precisely instead of grepping.
+ * Every location carries the text of its first line as a snippet.
+ */
+export class CodeNavigationTools {
+  private sandbox: WorkspaceSandbox;
+
+  constructor(sandbox: WorkspaceSandbox) {
+    this.sandbox = sandbox;
+  }
+
+  public register(registry: ToolRegistry): void {
+    registry.register({
+      name: 'find_symbol',
+      description: 'Find classes, functions, variables and other symbols by name across the workspace, using the language servers. Faster and more precise than search_workspace for locating declarations',
+      parameters: { type: 'object', properties: { query: { type: 'string', description: 'Symbol name or part of it' }, kind: { type: 'string', description: 'Only symbols of this kind, e.g. class, function, method, interface, variable' }, maxResults: { type: 'number', description: 'Default 100' } }, required: ['query'] }
+    }, args => this.findSymbol(args));
+
+    registry.register({
+      name: 'document_symbols',
+      description: 'Get the outline of a file: its classes, functions, methods and other symbols with their ranges',
+      parameters: { type: 'object', properties: { path: { type: 'string' }, depth: { type: 'number', description: 'Levels of nested symbols to include (default: all)' } }, required: ['path'] }
+    }, args => this.documentSymbols(args));
+
+    registry.register({
+      name: 'go_to_definition',
+      description: 'Find where the symbol at a position is defined, using the language server',
+      parameters: { type: 'object', properties: POSITION_PARAMETERS, required: ['path', 'line', 'column'] }
+    }, args => this.goToDefinition(args));
+
+    registry.register({
+      name: 'find_references',
+      description: 'Find all references to the symbol at a position, using the language server',
+      parameters: { type: 'object', properties: { ...POSITION_PARAMETERS, includeDeclaration: { type: 'boolean' }, maxResults: { type: 'number', description: 'Default 100' } }, required: ['path', 'line', 'column'] }
+    }, args => this.findReferences(args));
+  }
+
+  private async findSymbol(args: any): Promise<any> {
+    if (!args.query || typeof args.query !== 'string') throw new Error('"query" is required');
+    const maxResults = args.maxResults ?? DEFAULT_MAX_RESULTS;
+    const kind = typeof args.kind === 'string' ? args.kind.toLowerCase() : undefined;
+    const results = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', args.query) || [];
+    const matches = results.filter(s =>
+      vscode.workspace.getWorkspaceFolder(s.location.uri) && (!kind || this.kindName(s.kind) === kind));
+    const lines = new LineCache();
+    const symbols = [];
+    for (const s of matches.slice(0, maxResults)) {
+      symbols.push({
+        name: s.name,
+        kind: this.kindName(s.kind),
+        ...(s.containerName ? { container: s.containerName } : {}),
+        ...(await this.toLocation(s.location, lines))
+      });
+    }
+    return { symbols, total: matches.length, truncated: matches.length > maxResults };
+  }
+
+  private async documentSymbols(args: any): Promise<any> {
+    const document = await this.openDocument(args.path, args.folder);
+    const results = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>('vscode.executeDocumentSymbolProvider', document.uri) || [];
+    const depth = args.depth ?? Infinity;
+    const toOutline = (s: vscode.DocumentSymbol | vscode.SymbolInformation, level: number): OutlineSymbol => {
+      // Some providers still return the flat SymbolInformation shape
+      const range = 'range' in s ? s.range : s.location.range;
+      const children = 'children' in s && level < depth ? s.children.map(c => toOutline(c, level + 1)) : [];
+      return {
+        name: s.name,
+        kind: this.kindName(s.kind),
+        ...('detail' in s && s.detail ? { detail: s.detail } : {}),
+        ...this.toRange(range),
+        ...(children.length ? { children } : {})
+      };
+    };
+    return { path: vscode.workspace.asRelativePath(document.uri), symbols: results.map(s => toOutline(s, 1)) };
+  }
+
+  private async goToDefinition(args: any): Promise<any> {
+    const { uri, position } = await this.resolvePosition(args);
+    const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>('vscode.executeDefinitionProvider', uri, position) || [];
+    const lines = new LineCache();
+    const definitions = [];
+    for (const r of results) definitions.push(await this.toLocation(r, lines));
+    return { definitions };
+  }
+
+  private async findReferences(args: any): Promise<any> {
+    const { uri, position } = await this.resolvePosition(args);
+    const maxResults = args.maxResults ?? DEFAULT_MAX_RESULTS;
+    let results = await vscode.commands.executeCommand<vscode.Location[]>('vscode.executeReferenceProvider', uri, position) || [];
+    if (args.includeDeclaration === false) {
+      const definitions = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>('vscode.executeDefinitionProvider', uri, position) || [];
+      const declared = new Set(definitions.map(d => this.key(this.uriOf(d), this.rangeOf(d))));
+      results = results.filter(r => !declared.has(this.key(r.uri, r.range)));
+    }
+    const lines = new LineCache();
+    const references = [];
+    for (const r of results.slice(0, maxResults)) references.push(await this.toLocation(r, lines));
+    return { references, total: results.length, truncated: results.length > maxResults };
+  }
+
+  private async openDocument(p: string, folder?: string): Promise<vscode.TextDocument> {
+    if (!p) throw new Error('"path" is required');
+    return await vscode.workspace.openTextDocument(await this.sandbox.resolve(p, folder));
+  }
+
+  private async resolvePosition(args: any): Promise<{ uri: vscode.Uri; position: vscode.Position }> {
+    const document = await this.openDocument(args.path, args.folder);
+    const line = Math.min(Math.max(1, Number(args.line) || 1), document.lineCount) - 1;
+    const column = Math.max(1, Number(args.column) || 1) - 1;
+    return { uri: document.uri, position: document.validatePosition(new vscode.Position(line, column)) };
+  }
+
+  private async toLocation(location: vscode.Location | vscode.LocationLink, lines: LineCache): Promise<NavigationLocation> {
+    const uri = this.uriOf(location);
+    const range = this.rangeOf(location);
+    return {
+      path: vscode.workspace.asRelativePath(uri),
+      ...this.toRange(range),
+      snippet: await lines.get(uri, range.start.line)
+    };
+  }
+
+  private uriOf(location: vscode.Location | vscode.LocationLink): vscode.Uri {
+    return 'targetUri' in location ? location.targetUri : location.uri;
+  }
+
+  private rangeOf(location: vscode.Location | vscode.LocationLink): vscode.Range {
+    return 'targetUri' in location ? (location.targetSelectionRange || location.targetRange) : location.range;
+  }
+
+  private key(uri: vscode.Uri, range: vscode.Range): string {
+    return `${uri.toString()}#${range.start.line}:${range.start.character}`;
+  }
+
+  private toRange(range: vscode.Range): { line: number; column: number; endLine: number; endColumn: number } {
+    return {
+      line: range.start.line + 1,
+      column: range.start.character + 1,
+      endLine: range.end.line + 1,
+      endColumn: range.end.character + 1
+    };
+  }
+
+  private kindName(kind: vscode.SymbolKind): string {
+    return (vscode.SymbolKind[kind] || 'unknown').toLowerCase();
+  }
+}
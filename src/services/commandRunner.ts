@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
+import { ConfigurationService } from './configurationService';
+
+export interface CommandResult {
+  command: string;
+  cwd: string;
+  exitCode: number | null;
+  signal?: string;
+  timedOut: boolean;
+  durationMs: number;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+}
+
+/** Keeps the beginning and the end of a stream once it grows past its limit. */
+class CappedBuffer {
+  private head = '';
+  private tail = '';
+  private limit: number;
+  public truncated = false;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  append(chunk: string): void {
+    if (!this.truncated) {
+      if (this.head.length + chunk.length <= this.limit) {
+        this.head += chunk;
+        return;
+      }
+      const combined = this.head + chunk;
+      this.head = combined.slice(0, Math.floor(this.limit / 2));
+      chunk = combined.slice(this.head.length);
+      this.truncated = true;
+    }
+    this.tail = (this.tail + chunk).slice(-Math.ceil(this.limit / 2));
+  }
+
+  toString(): string {
+    return this.truncated ? `${this.head}\n… [output truncated] …\n${this.tail}` : this.head;
+  }
+}
+
+/** Time a command gets to exit after SIGTERM before its process group is killed. */
+const KILL_GRACE_MS = 2000;
+/** Time to wait for the rest of the output after a command exited or was killed. */
+const OUTPUT_DRAIN_MS = 500;
+
+/**
+ * Runs shell commands for the agent's run_command tool. Every command is shown for
+ * approval (unless it matches openaiAgent.commands.autoApprove) and its output is
+ * mirrored live into the "OpenAI Agent: Commands" output channel.
+ */
+export class CommandRunner {
+  private configService: ConfigurationService;
+  private output: vscode.OutputChannel | undefined;
+  /** Running commands, how to stop waiting for each of them and their pending SIGKILL */
+  private running = new Map<ChildProcess, { finish: (signal: string) => void; killTimer?: NodeJS.Timeout }>();
+
+  constructor(configService: ConfigurationService) {
+    this.configService = configService;
+  }
+
+  public isAutoApproved(command: string): boolean {
+    const normalized = command.trim();
+    // Chained commands could smuggle anything past a prefix match
+    if (/[;&|`$<>]|\n/.test(normalized)) return false;
+    return this.configService.getCommandAutoApprove().some(prefix => {
+      const p = prefix.trim();
+      return !!p && (normalized === p || normalized.startsWith(p + ' '));
+    });
+  }
+
+  /** Shows the command in a modal dialog. Returns false if the user declined. */
+  public async confirm(command: string, cwd: string): Promise<boolean> {
+    if (this.isAutoApproved(command)) return true;
+    const choice = await vscode.window.showWarningMessage(
+      `OpenAI Agent wants to run a command:\n\n${command}\n\nin ${cwd}`,
+      { modal: true },
+      'Run'
+    );
+    return choice === 'Run';
+  }
+
+  public run(command: string, cwd: string, timeoutSeconds?: number): Promise<CommandResult> {
+    const timeoutMs = Math.max(1, timeoutSeconds ?? this.configService.getCommandTimeoutSeconds()) * 1000;
+    const maxChars = this.configService.getCommandMaxOutputChars();
+    const stdout = new CappedBuffer(maxChars);
+    const stderr = new CappedBuffer(maxChars);
+    const output = this.getOutputChannel();
+    const startedAt = Date.now();
+
+    output.show(true);
+    output.appendLine(`$ ${command}`);
+    output.appendLine(`  (cwd: ${cwd})`);
+
+    return new Promise(resolve => {
+      const proc = spawn(command, {
+        cwd,
+        shell: true,
+        env: { ...process.env, CI: process.env.CI ?? '1', FORCE_COLOR: '0' },
+        // Own process group so the whole tree can be stopped on timeout/cancel
+        detached: process.platform !== 'win32',
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        output.appendLine(`[timed out after ${timeoutMs / 1000}s]`);
+        this.kill(proc);
+      }, timeoutMs);
+
+      proc.stdout?.setEncoding('utf8');
+      proc.stderr?.setEncoding('utf8');
+      proc.stdout?.on('data', (chunk: string) => { stdout.append(chunk); output.append(chunk); });
+      proc.stderr?.on('data', (chunk: string) => { stderr.append(chunk); output.append(chunk); });
+
+      const finish = (exitCode: number | null, signal?: string, error?: string) => {
+        const entry = this.running.get(proc);
+        if (!entry) return;
+        this.running.delete(proc);
+        clearTimeout(timer);
+        // The group ID may belong to an unrelated process once this one is gone
+        clearTimeout(entry.killTimer);
+        // Release pipes a background child may still hold open
+        proc.stdout?.destroy();
+        proc.stderr?.destroy();
+        if (error) stderr.append(error);
+        output.appendLine(`[exit ${exitCode ?? signal ?? 'error'} · ${Date.now() - startedAt} ms]`);
+        output.appendLine('');
+        resolve({
+          command,
+          cwd,
+          exitCode,
+          ...(signal ? { signal } : {}),
+          timedOut,
+          durationMs: Date.now() - startedAt,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          truncated: stdout.truncated || stderr.truncated
+        });
+      };
+      this.running.set(proc, { finish: signal => finish(null, signal) });
+      proc.on('error', err => finish(null, undefined, String(err?.message || err)));
+      proc.on('close', (code, signal) => finish(code, signal || undefined));
+      // 'close' waits for stdout to end, which never happens while a background child keeps it open
+      proc.on('exit', (code, signal) => setTimeout(() => finish(code, signal || undefined), OUTPUT_DRAIN_MS));
+    });
+  }
+
+  /** Stops every running command, e.g. when the user stops the agent. */
+  public cancelAll(): void {
+    for (const proc of this.running.keys()) this.kill(proc);
+  }
+
+  public dispose(): void {
+    this.cancelAll();
+    this.output?.dispose();
+    this.output = undefined;
+  }
+
+  /**
+   * Asks the command's process group to stop, kills it if it ignores SIGTERM and then
+   * stops waiting, so a stuck command can't hang the agent run.
+   */
+  private kill(proc: ChildProcess): void {
+    const entry = this.running.get(proc);
+    if (!entry || entry.killTimer) return;
+    this.signal(proc, 'SIGTERM');
+    entry.killTimer = setTimeout(() => {
+      if (!this.running.has(proc)) return;
+      // Also reaches background children left in the group after the shell exited
+      this.signal(proc, 'SIGKILL');
+      entry.killTimer = setTimeout(() => this.running.get(proc)?.finish('SIGKILL'), OUTPUT_DRAIN_MS);
+    }, KILL_GRACE_MS);
+  }
+
+  private signal(proc: ChildProcess, signal: NodeJS.Signals): void {
+    try {
+      if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F']);
+      } else if (proc.pid) {
+        process.kill(-proc.pid, signal);
+      }
+    } catch {
+      // ESRCH: the group is already gone
+      try { proc.kill(signal); } catch {}
+    }
+  }
+
+  private getOutputChannel(): vscode.OutputChannel {
+    if (!this.output) this.output = vscode.window.createOutputChannel('OpenAI Agent: Commands');
+    return this.output;
+  }
+}
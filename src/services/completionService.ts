@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { OpenAIService } from './openAIService';
+import { ConfigurationService } from './configurationService';
+
+const CURSOR_MARKER = '<CURSOR>';
+
+const SYSTEM_PROMPT = `You are a code completion engine embedded in VS Code.
+You receive the code around the user's cursor, with the cursor position marked as ${CURSOR_MARKER}.
+Reply with ONLY the code that should be inserted at ${CURSOR_MARKER}: no explanations, no markdown fences, and do not repeat code that is already before or after the cursor.
+Follow the style of the surrounding code. If nothing sensible can be inserted, reply with an empty message.`;
+
+export interface CompletionRequest {
+  documentUri: string;
+  language: string;
+  prefix: string;
+  suffix: string;
+  fileName?: string;
+}
+
+class LruCache<V> {
+  private entries = new Map<string, V>();
+  private capacity: () => number;
+
+  constructor(capacity: () => number) {
+    this.capacity = capacity;
+  }
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    const capacity = this.capacity();
+    if (capacity <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > capacity) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Stateless inline completions built from a prefix/suffix prompt. Unlike chat,
+ * these requests go to Chat Completions and never touch the assistant thread.
+ */
+export class CompletionService {
+  private openAIService: OpenAIService;
+  private configService: ConfigurationService;
+  private cache: LruCache<string>;
+
+  constructor(openAIService: OpenAIService, configService: ConfigurationService) {
+    this.openAIService = openAIService;
+    this.configService = configService;
+    this.cache = new LruCache<string>(() => this.configService.getCompletionCacheSize());
+  }
+
+  /** Returns a previously generated completion for the same document, language and prefix. */
+  public getCached(request: CompletionRequest): string | undefined {
+    return this.cache.get(this.cacheKey(request));
+  }
+
+  public clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Requests a completion for the given prefix/suffix. The HTTP request is aborted
+   * as soon as the cancellation token fires.
+   */
+  public async complete(request: CompletionRequest, token?: vscode.CancellationToken): Promise<string> {
+    const cached = this.getCached(request);
+    if (cached !== undefined) return cached;
+
+    let prompt = `Language: ${request.language}\n`;
+    if (request.fileName) prompt += `File: ${request.fileName}\n`;
+    prompt += `\n${request.prefix}${CURSOR_MARKER}${request.suffix}`;
+
+    const controller = new AbortController();
+    const subscription = token?.onCancellationRequested(() => controller.abort());
+    if (token?.isCancellationRequested) controller.abort();
+    try {
+      const response = await this.openAIService.createChatCompletion({
+        model: this.configService.getModel(),
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt }
+        ],
+        max_tokens: this.configService.getMaxTokens(),
+        temperature: 0.2,
+        n: 1
+      }, controller.signal);
+
+      const text: string = response.choices?.[0]?.message?.content || '';
+      const completion = this.cleanCompletion(text, request.suffix);
+      this.cache.set(this.cacheKey(request), completion);
+      return completion;
+    } finally {
+      subscription?.dispose();
+    }
+  }
+
+  private cacheKey(request: CompletionRequest): string {
+    const prefixHash = createHash('sha1').update(request.prefix).digest('hex');
+    return `${request.documentUri}|${request.language}|${prefixHash}`;
+  }
+
+  private cleanCompletion(text: string, suffix: string): string {
+    let result = text.replace(/\r\n/g, '\n');
+    // Models sometimes wrap the answer in a fenced block despite the instructions
+    const fenced = result.match(/^\s*```[\w+-]*\n([\s\S]*?)\n?```\s*$/);
+    if (fenced) result = fenced[1];
+    result = result.replace(CURSOR_MARKER, '');
+    // Drop a trailing echo of the code that already follows the cursor
+    const nextLine = suffix.split('\n')[0].trim();
+    if (nextLine && result.trimEnd().endsWith(nextLine)) {
+      result = result.trimEnd().slice(0, -nextLine.length);
+    }
+    return result.trim() ? result : '';
+  }
+}
@@ -1,16 +1,36 @@
 import * as vscode from 'vscode';
+import { McpServerConfig } from './mcpManager';
+import { ConfirmWritesMode } from './writeGuard';
+import { LogLevel } from './logger';
+import { ModelProvider, ProviderId, OpenAIProvider, AzureOpenAIProvider, CompatibleProvider } from './modelProviders';
 
 export class ConfigurationService {
   private context: vscode.ExtensionContext;
-  private readonly API_KEY_SECRET = 'openai-api-key';
+  private readonly API_KEY_SECRETS: Record<ProviderId, string> = {
+    openai: 'openai-api-key',
+    azure: 'azure-openai-api-key',
+    compatible: 'compatible-api-key'
+  };
   private readonly ASSISTANT_ID_KEY = 'openai-assistant-id';
   private readonly THREAD_ID_KEY = 'openai-thread-id';
   private readonly THREADS_KEY = 'openai-threads';
   private readonly ACTIVE_THREAD_KEY = 'openai-active-thread';
   private readonly THREAD_NAMES_KEY = 'openai-thread-names';
+  private readonly LOCAL_CONVERSATION_PREFIX = 'openai-local-conversation:';
+  private readonly MODE_KEY = 'openai-interaction-mode';
+  private readonly SERVER_MODEL_PREFIX = 'openai-server-model:';
+  private modeEmitter = new vscode.EventEmitter<'agent' | 'ask'>();
+  /** Fires when the interaction mode changes, from the chat panel, a command or the setting. */
+  public readonly onDidChangeMode = this.modeEmitter.event;
   
   constructor(context: vscode.ExtensionContext) {
     this.context = context;
+    context.subscriptions.push(this.modeEmitter, vscode.workspace.onDidChangeConfiguration(async e => {
+      if (!e.affectsConfiguration('openaiAgent.mode')) return;
+      // Editing the setting replaces the mode last picked in this workspace
+      await this.context.workspaceState.update(this.MODE_KEY, undefined);
+      this.modeEmitter.fire(this.getMode());
+    }));
   }
   
   public getConfiguration() {
@@ -33,21 +53,139 @@ export class ConfigurationService {
     return this.getConfiguration().update('model', value, true);
   }
 
+  /**
+   * The interaction mode shown in the chat panel and the status bar, which WriteGuard's
+   * agentOnly/chatOnly also follow. Picking a mode keeps it for this workspace;
+   * openaiAgent.mode is the default until then.
+   */
   public getMode(): 'agent' | 'ask' {
-    const m = this.getConfiguration().get<string>('mode') || 'agent';
+    const m = this.context.workspaceState.get<string>(this.MODE_KEY) || this.getConfiguration().get<string>('mode') || 'agent';
     return (m === 'ask' ? 'ask' : 'agent');
   }
+
+  public async setMode(value: 'agent' | 'ask'): Promise<void> {
+    if (value === this.getMode()) return;
+    await this.context.workspaceState.update(this.MODE_KEY, value);
+    this.modeEmitter.fire(value);
+  }
+
+  public getConfirmWrites(): ConfirmWritesMode {
+    const v = this.getConfiguration().get<string>('confirmWrites') || 'always';
+    return (['always', 'agentOnly', 'chatOnly', 'never'].includes(v) ? v : 'always') as ConfirmWritesMode;
+  }
+
+  public getWriteWhitelist(): string[] {
+    return this.getConfiguration().get<string[]>('writeWhitelist') || [];
+  }
+
+  public getAllowedRoots(): string[] {
+    return this.getConfiguration().get<string[]>('allowedRoots') || [];
+  }
+
+  public getCommandTimeoutSeconds(): number {
+    return this.getConfiguration().get<number>('commands.timeoutSeconds') ?? 120;
+  }
+
+  public getCommandMaxOutputChars(): number {
+    return this.getConfiguration().get<number>('commands.maxOutputChars') ?? 20000;
+  }
+
+  public getCommandAutoApprove(): string[] {
+    return this.getConfiguration().get<string[]>('commands.autoApprove') || [];
+  }
+
+  public getLogLevel(): LogLevel {
+    return this.getConfiguration().get<LogLevel>('logLevel') || 'info';
+  }
+
+  public getRunTimeoutSeconds(): number {
+    return this.getConfiguration().get<number>('run.timeoutSeconds') ?? 600;
+  }
+
+  public getRetryMaxRetries(): number {
+    return this.getConfiguration().get<number>('retry.maxRetries') ?? 3;
+  }
+
+  public getRetryMaxDelaySeconds(): number {
+    return this.getConfiguration().get<number>('retry.maxDelaySeconds') ?? 60;
+  }
+
+  public getCheckpointMaxRuns(): number {
+    return this.getConfiguration().get<number>('checkpoints.maxRuns') ?? 10;
+  }
   
   public getMaxTokens(): number {
     return this.getConfiguration().get<number>('maxTokens') || 1000;
   }
   
-  public async getApiKey(): Promise<string | undefined> {
-    return await this.context.secrets.get(this.API_KEY_SECRET);
+  public getCompletionDebounceMs(): number {
+    return Math.max(0, this.getConfiguration().get<number>('completion.debounceMs') ?? 300);
+  }
+
+  public getCompletionCacheSize(): number {
+    return Math.max(0, this.getConfiguration().get<number>('completion.cacheSize') ?? 100);
+  }
+  
+  public getEngine(): 'assistants' | 'chatCompletions' {
+    return this.getConfiguration().get<string>('engine') === 'chatCompletions' ? 'chatCompletions' : 'assistants';
+  }
+
+  public getStreamResponses(): boolean {
+    return this.getConfiguration().get<boolean>('streamResponses') ?? true;
+  }
+
+  public getMcpServers(): McpServerConfig[] {
+    return this.getConfiguration().get<McpServerConfig[]>('mcp.servers') || [];
+  }
+  
+  public getProviderId(): ProviderId {
+    const p = this.getConfiguration().get<string>('provider') || 'openai';
+    return (['openai', 'azure', 'compatible'].includes(p) ? p : 'openai') as ProviderId;
+  }
+
+  public getModelProvider(): ModelProvider {
+    const config = this.getConfiguration();
+    switch (this.getProviderId()) {
+      case 'azure':
+        return new AzureOpenAIProvider({
+          endpoint: config.get<string>('azure.endpoint') || '',
+          deployment: config.get<string>('azure.deployment') || '',
+          apiVersion: config.get<string>('azure.apiVersion') || '2024-05-01-preview'
+        });
+      case 'compatible': {
+        const baseUrl = config.get<string>('compatible.baseUrl') || 'http://localhost:8080/v1';
+        return new CompatibleProvider({
+          baseUrl,
+          model: config.get<string>('compatible.model') || undefined,
+          serverModel: this.getServerModel(baseUrl)
+        });
+      }
+      default:
+        return new OpenAIProvider();
+    }
   }
   
-  public async setApiKey(apiKey: string): Promise<void> {
-    await this.context.secrets.store(this.API_KEY_SECRET, apiKey);
+  /** Model an OpenAI-compatible server reported at the given base URL. */
+  public getServerModel(baseUrl: string): string | undefined {
+    return this.context.globalState.get<string>(this.SERVER_MODEL_PREFIX + baseUrl);
+  }
+
+  public setServerModel(baseUrl: string, model: string | undefined): Thenable<void> {
+    return this.context.globalState.update(this.SERVER_MODEL_PREFIX + baseUrl, model);
+  }
+  
+  public async getApiKey(provider: ProviderId = this.getProviderId()): Promise<string | undefined> {
+    return await this.context.secrets.get(this.API_KEY_SECRETS[provider]);
+  }
+  
+  public async setApiKey(apiKey: string, provider: ProviderId = this.getProviderId()): Promise<void> {
+    await this.context.secrets.store(this.API_KEY_SECRETS[provider], apiKey);
+  }
+
+  /** True when the active provider can be used, i.e. it has a key or does not need one. */
+  public async hasCredentials(): Promise<boolean> {
+    if (this.getProviderId() === 'compatible') return true;
+    return !!(await this.getApiKey());
   }
   
   public getAssistantId(): string | undefined {
@@ -103,4 +241,13 @@ export class ConfigurationService {
   public getThreadName(threadId: string): string | undefined {
     return this.getThreadNames()[threadId];
   }
+
+  /** Chat Completions context kept in globalState by earlier versions; now moved to the ConversationStore. */
+  public getLegacyLocalConversation(threadId: string): any[] | undefined {
+    return this.context.globalState.get<any[]>(this.LOCAL_CONVERSATION_PREFIX + threadId);
+  }
+
+  public clearLegacyLocalConversation(threadId: string): Thenable<void> {
+    return this.context.globalState.update(this.LOCAL_CONVERSATION_PREFIX + threadId, undefined);
+  }
 }
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+
+export interface StoredToolCall {
+  /** Tool call id from the API, identifies the card in the chat view */
+  id?: string;
+  name: string;
+  arguments: any;
+  result?: string;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface StoredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  toolCalls?: StoredToolCall[];
+  cost?: { usd: number; inputTokens: number; outputTokens: number; model?: string };
+}
+
+export interface StoredConversation {
+  id: string;
+  name?: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: StoredMessage[];
+}
+
+export interface SearchResult {
+  threadId: string;
+  threadName?: string;
+  messageIndex: number;
+  role: string;
+  snippet: string;
+}
+
+/**
+ * Local mirror of every chat thread, one JSON file per thread under the extension's
+ * global storage. Threads live here independently of the OpenAI servers. Threads of
+ * the Chat Completions engine also keep the messages sent to the model (with tool
+ * calls and outputs) in a separate context file.
+ */
+export class ConversationStore {
+  private dir: vscode.Uri;
+  private contextDir: vscode.Uri;
+  private cache = new Map<string, StoredConversation>();
+
+  constructor(globalStorageUri: vscode.Uri) {
+    this.dir = vscode.Uri.joinPath(globalStorageUri, 'conversations');
+    this.contextDir = vscode.Uri.joinPath(globalStorageUri, 'context');
+  }
+
+  public async load(threadId: string): Promise<StoredConversation | undefined> {
+    const cached = this.cache.get(threadId);
+    if (cached) return cached;
+    try {
+      const data = await vscode.workspace.fs.readFile(this.fileFor(threadId));
+      const conversation = JSON.parse(Buffer.from(data).toString('utf8')) as StoredConversation;
+      this.cache.set(threadId, conversation);
+      return conversation;
+    } catch {
+      return undefined;
+    }
+  }
+
+  public async save(conversation: StoredConversation): Promise<void> {
+    conversation.updatedAt = Date.now();
+    this.cache.set(conversation.id, conversation);
+    await vscode.workspace.fs.createDirectory(this.dir);
+    await vscode.workspace.fs.writeFile(this.fileFor(conversation.id), Buffer.from(JSON.stringify(conversation, null, 2), 'utf8'));
+  }
+
+  public async appendMessages(threadId: string, messages: StoredMessage[], name?: string): Promise<void> {
+    const now = Date.now();
+    const conversation = (await this.load(threadId)) || { id: threadId, createdAt: now, updatedAt: now, messages: [] };
+    conversation.messages.push(...messages);
+    if (name) conversation.name = name;
+    await this.save(conversation);
+  }
+
+  /** The Chat Completions messages of a local thread, or undefined when none are stored. */
+  public async loadContext(threadId: string): Promise<any[] | undefined> {
+    try {
+      const data = await vscode.workspace.fs.readFile(this.contextFileFor(threadId));
+      const messages = JSON.parse(Buffer.from(data).toString('utf8'));
+      return Array.isArray(messages) ? messages : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  public async saveContext(threadId: string, messages: any[]): Promise<void> {
+    await vscode.workspace.fs.createDirectory(this.contextDir);
+    await vscode.workspace.fs.writeFile(this.contextFileFor(threadId), Buffer.from(JSON.stringify(messages), 'utf8'));
+  }
+
+  public async setName(threadId: string, name: string): Promise<void> {
+    const conversation = await this.load(threadId);
+    if (!conversation) return;
+    conversation.name = name;
+    await this.save(conversation);
+  }
+
+  public async list(): Promise<StoredConversation[]> {
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(this.dir);
+    } catch {
+      return [];
+    }
+    const conversations: StoredConversation[] = [];
+    for (const [file, type] of entries) {
+      if (type !== vscode.FileType.File || !file.endsWith('.json')) continue;
+      const conversation = await this.load(decodeURIComponent(file.slice(0, -'.json'.length)));
+      if (conversation) conversations.push(conversation);
+    }
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /** Case-insensitive full-text search over message contents and thread names. */
+  public async search(query: string, maxResults: number = 200): Promise<SearchResult[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const results: SearchResult[] = [];
+    for (const conversation of await this.list()) {
+      conversation.messages.forEach((message, messageIndex) => {
+        if (results.length >= maxResults) return;
+        const idx = message.content.toLowerCase().indexOf(needle);
+        if (idx < 0) return;
+        const start = Math.max(0, idx - 40);
+        const end = Math.min(message.content.length, idx + needle.length + 60);
+        const snippet = (start > 0 ? '…' : '') + message.content.slice(start, end).replace(/\s+/g, ' ') + (end < message.content.length ? '…' : '');
+        results.push({ threadId: conversation.id, threadName: conversation.name, messageIndex, role: message.role, snippet });
+      });
+      if (results.length >= maxResults) break;
+    }
+    return results;
+  }
+
+  public toMarkdown(conversation: StoredConversation): string {
+    const lines: string[] = [`# ${conversation.name || conversation.id}`, ''];
+    lines.push(`<!-- openai-agent-thread: ${conversation.id} -->`, '');
+    for (const message of conversation.messages) {
+      lines.push(`## ${message.role === 'user' ? 'User' : 'Assistant'}`);
+      lines.push(`<!-- ${new Date(message.timestamp).toISOString()} -->`, '');
+      lines.push(message.content, '');
+      for (const call of message.toolCalls || []) {
+        lines.push(`> Tool \`${call.name}\` ${call.error ? `failed: ${call.error}` : 'succeeded'}${call.durationMs !== undefined ? ` (${call.durationMs} ms)` : ''}`);
+      }
+      if (message.toolCalls?.length) lines.push('');
+      if (message.cost) {
+        lines.push(`_Cost: $${message.cost.usd.toFixed(4)} (${message.cost.inputTokens}→${message.cost.outputTokens} tokens${message.cost.model ? `, ${message.cost.model}` : ''})_`, '');
+      }
+    }
+    return lines.join('\n');
+  }
+
+  public toJson(conversation: StoredConversation): string {
+    return JSON.stringify(conversation, null, 2);
+  }
+
+  /** Parses a thread previously exported as JSON or Markdown. The caller assigns the new ID. */
+  public parseExport(text: string, format: 'json' | 'markdown'): Omit<StoredConversation, 'id'> {
+    const now = Date.now();
+    if (format === 'json') {
+      const data = JSON.parse(text);
+      if (!data || !Array.isArray(data.messages)) throw new Error('Not an exported conversation: "messages" is missing');
+      const messages: StoredMessage[] = data.messages
+        .filter((m: any) => m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+        .map((m: any) => ({ ...m, timestamp: typeof m.timestamp === 'number' ? m.timestamp : now }));
+      return { name: data.name, createdAt: data.createdAt || now, updatedAt: now, messages };
+    }
+
+    const messages: StoredMessage[] = [];
+    let name: string | undefined;
+    let current: StoredMessage | undefined;
+    let body: string[] = [];
+    const flush = () => {
+      if (!current) return;
+      current.content = body.join('\n').trim();
+      messages.push(current);
+    };
+    for (const line of text.split(/\r?\n/)) {
+      const heading = line.match(/^## (User|Assistant)\s*$/);
+      if (heading) {
+        flush();
+        current = { role: heading[1] === 'User' ? 'user' : 'assistant', content: '', timestamp: now };
+        body = [];
+      } else if (!current && line.startsWith('# ')) {
+        name = line.slice(2).trim();
+      } else if (current) {
+        const stamp = line.match(/^<!-- (\d{4}-\d\d-\d\dT[^ ]+) -->$/);
+        if (stamp && body.length === 0) current.timestamp = Date.parse(stamp[1]) || now;
+        else if (!/^> Tool `/.test(line) && !/^_Cost: /.test(line)) body.push(line);
+      }
+    }
+    flush();
+    if (messages.length === 0) throw new Error('No "## User" / "## Assistant" sections found');
+    return { name, createdAt: messages[0].timestamp, updatedAt: now, messages };
+  }
+
+  private fileFor(threadId: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.dir, `${encodeURIComponent(threadId)}.json`);
+  }
+
+  private contextFileFor(threadId: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.contextDir, `${encodeURIComponent(threadId)}.json`);
+  }
+}
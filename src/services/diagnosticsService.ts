@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+
+export type SeverityName = 'error' | 'warning' | 'information' | 'hint';
+
+export interface DiagnosticsFilter {
+  /** Only diagnostics of this file; all files when omitted */
+  uri?: vscode.Uri;
+  /** Lowest severity to include; defaults to warning */
+  minSeverity?: SeverityName;
+  maxResults?: number;
+}
+
+export interface DiagnosticEntry {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  severity: SeverityName;
+  message: string;
+  source?: string;
+  code?: string;
+}
+
+const SEVERITY_NAMES: Record<vscode.DiagnosticSeverity, SeverityName> = {
+  [vscode.DiagnosticSeverity.Error]: 'error',
+  [vscode.DiagnosticSeverity.Warning]: 'warning',
+  [vscode.DiagnosticSeverity.Information]: 'information',
+  [vscode.DiagnosticSeverity.Hint]: 'hint'
+};
+
+const SEVERITY_RANK: Record<SeverityName, number> = { error: 0, warning: 1, information: 2, hint: 3 };
+
+/**
+ * Reads the Problems view (tsc, eslint and any other language server) through
+ * vscode.languages.getDiagnostics. Runs in the extension host, so it backs the
+ * get_diagnostics tool directly instead of going through the MCP server.
+ */
+export class DiagnosticsService {
+  public collect(filter: DiagnosticsFilter = {}): { diagnostics: DiagnosticEntry[]; total: number; truncated: boolean } {
+    const maxRank = SEVERITY_RANK[filter.minSeverity || 'warning'] ?? SEVERITY_RANK.warning;
+    const maxResults = filter.maxResults ?? 200;
+    const sources: [vscode.Uri, readonly vscode.Diagnostic[]][] = filter.uri
+      ? [[filter.uri, vscode.languages.getDiagnostics(filter.uri)]]
+      : vscode.languages.getDiagnostics();
+
+    const all: DiagnosticEntry[] = [];
+    for (const [uri, diagnostics] of sources) {
+      if (uri.scheme !== 'file' && uri.scheme !== 'untitled') continue;
+      for (const d of diagnostics) {
+        const severity = SEVERITY_NAMES[d.severity];
+        if (SEVERITY_RANK[severity] > maxRank) continue;
+        all.push({
+          file: vscode.workspace.asRelativePath(uri),
+          line: d.range.start.line + 1,
+          column: d.range.start.character + 1,
+          endLine: d.range.end.line + 1,
+          severity,
+          message: d.message,
+          ...(d.source ? { source: d.source } : {}),
+          ...(d.code !== undefined ? { code: String(typeof d.code === 'object' ? d.code.value : d.code) } : {})
+        });
+      }
+    }
+    // Errors first, then by file and position
+    all.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.file.localeCompare(b.file) || a.line - b.line);
+    return { diagnostics: all.slice(0, maxResults), total: all.length, truncated: all.length > maxResults };
+  }
+
+  /**
+   * Builds a chat prompt asking to fix the problems of a document, with the code
+   * around each problem. Returns undefined when the document has no problems.
+   */
+  public buildFixPrompt(document: vscode.TextDocument, contextLines: number = 3): string | undefined {
+    const { diagnostics } = this.collect({ uri: document.uri, minSeverity: 'warning', maxResults: 50 });
+    if (diagnostics.length === 0) return undefined;
+
+    const file = vscode.workspace.asRelativePath(document.uri);
+    const sections = diagnostics.map(d => {
+      const start = Math.max(0, d.line - 1 - contextLines);
+      const end = Math.min(document.lineCount - 1, d.endLine - 1 + contextLines);
+      const width = String(end + 1).length;
+      const lines: string[] = [];
+      for (let i = start; i <= end; i++) {
+        const marker = i + 1 >= d.line && i + 1 <= d.endLine ? '>' : ' ';
+        lines.push(`${marker} ${String(i + 1).padStart(width)} | ${document.lineAt(i).text}`);
+      }
+      const origin = [d.source, d.code].filter(Boolean).join(' ');
+      return `${d.severity.toUpperCase()} at line ${d.line}:${d.column}${origin ? ` (${origin})` : ''}: ${d.message}\n\`\`\`${document.languageId}\n${lines.join('\n')}\n\`\`\``;
+    });
+
+    return `Fix the following ${diagnostics.length === 1 ? 'problem' : `${diagnostics.length} problems`} in \`${file}\`. ` +
+      `Read the file if you need more context, apply the fixes with the file tools and explain briefly what you changed.\n\n${sections.join('\n\n')}`;
+  }
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { resolveWorkspaceUri } from './workspaceSandbox';
+
+/** 'dismissed' means the notification was closed or timed out without an answer */
+export type ReviewDecision = 'accepted' | 'rejected' | 'dismissed';
+
+export interface ProposeOptions {
+  /** Defaults to true; false applies the content straight away */
+  requireConfirmation?: boolean;
+  /** Editor text the content was computed from, see applyContent */
+  base?: string;
+  /** Agent run (checkpoint id) the edit belongs to; enables "Accept All for This Run" */
+  runId?: string;
+  /** Runs only for accepted changes, right before they are written (e.g. to snapshot the file) */
+  beforeApply?: () => Promise<void>;
+}
+
+export class DiffPreviewService implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = 'openai-agent-proposed';
+  private proposals = new Map<string, string>();
+  private nextProposalId = 1;
+  /** Runs for which the user picked "Accept All for This Run" */
+  private acceptAllRuns = new Set<string>();
+  private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+
+  public register(): vscode.Disposable {
+    return vscode.workspace.registerTextDocumentContentProvider(DiffPreviewService.scheme, this);
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.proposals.get(uri.toString()) ?? '';
+  }
+
+  /** Forgets "Accept All for This Run" of a finished run. */
+  public endRun(runId: string): void {
+    this.acceptAllRuns.delete(runId);
+  }
+
+  /**
+   * Shows the proposed content of a file in a diff editor and applies it once accepted.
+   * When confirmation is not required the content is applied straight away.
+   */
+  public async proposeFileContent(p: string, content: string, options: ProposeOptions = {}): Promise<any> {
+    const uri = resolveWorkspaceUri(p);
+    const { requireConfirmation = true, base, runId, beforeApply } = options;
+    if (requireConfirmation && !(runId && this.acceptAllRuns.has(runId))) {
+      const decision = await this.review(uri, content, `Apply changes to ${vscode.workspace.asRelativePath(uri)}?`, runId);
+      if (decision === 'rejected') {
+        return { path: uri.fsPath, status: 'rejected', error: 'User rejected the proposed changes' };
+      }
+      if (decision === 'dismissed') {
+        return { path: uri.fsPath, status: 'unanswered', error: 'The user closed the review without answering; the file was not changed' };
+      }
+    }
+    if (beforeApply) await beforeApply();
+    await this.applyContent(uri, content, base);
+    return { path: uri.fsPath, bytes: Buffer.byteLength(content, 'utf8'), status: 'ok' };
+  }
+
+  /**
+   * Shows a diff between the current and the proposed content and asks the user to decide.
+   * With a runId the user can also accept every further change of that run.
+   */
+  public async review(uri: vscode.Uri, proposed: string, question: string, runId?: string): Promise<ReviewDecision> {
+    const exists = await this.exists(uri);
+    const proposedUri = this.registerProposal(uri, proposed);
+    const originalUri = exists ? uri : this.registerProposal(uri, '');
+    const title = `${path.basename(uri.fsPath)} ${exists ? '' : '(new file) '}↔ Proposed by OpenAI Agent`;
+    try {
+      await vscode.commands.executeCommand('vscode.diff', originalUri, proposedUri, title, { preview: true });
+      const choices = runId ? ['Accept', 'Reject', 'Accept All for This Run'] : ['Accept', 'Reject'];
+      const choice = await vscode.window.showInformationMessage(question, ...choices);
+      if (choice === undefined) return 'dismissed';
+      if (choice === 'Accept All for This Run') this.acceptAllRuns.add(runId!);
+      return choice === 'Reject' ? 'rejected' : 'accepted';
+    } finally {
+      await this.closeDiff(proposedUri);
+      this.proposals.delete(proposedUri.toString());
+      if (originalUri !== uri) this.proposals.delete(originalUri.toString());
+    }
+  }
+
+  /**
+   * Applies content through a WorkspaceEdit so the change is undoable and open editors stay in sync.
+   * With a base (the editor text the content was computed from) it fails instead of overwriting
+   * changes the user made in the meantime.
+   */
+  public async applyContent(uri: vscode.Uri, content: string, base?: string): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    if (await this.exists(uri)) {
+      const doc = await vscode.workspace.openTextDocument(uri);
+      if (base !== undefined && doc.getText() !== base) {
+        throw new Error(`${vscode.workspace.asRelativePath(uri)} was changed in the editor meanwhile; read it again and redo the edit`);
+      }
+      const fullRange = new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length));
+      edit.replace(uri, fullRange, content);
+    } else {
+      edit.createFile(uri, { ignoreIfExists: true });
+      edit.insert(uri, new vscode.Position(0, 0), content);
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error(`Failed to apply changes to ${uri.fsPath}`);
+    }
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await doc.save();
+  }
+
+  private registerProposal(target: vscode.Uri, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({
+      scheme: DiffPreviewService.scheme,
+      path: target.path,
+      query: `id=${this.nextProposalId++}`
+    });
+    this.proposals.set(uri.toString(), content);
+    this.onDidChangeEmitter.fire(uri);
+    return uri;
+  }
+
+  private async exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async closeDiff(proposedUri: vscode.Uri): Promise<void> {
+    const tabGroups = vscode.window.tabGroups;
+    if (!tabGroups) return;
+    for (const group of tabGroups.all) {
+      for (const tab of group.tabs) {
+        const input: any = tab.input;
+        if (input?.modified?.toString() === proposedUri.toString()) {
+          try { await tabGroups.close(tab); } catch {}
+        }
+      }
+    }
+  }
+}
@@ -1,9 +1,24 @@
 import * as vscode from 'vscode';
+import { DiffPreviewService } from './diffPreviewService';
 
 export class EditorService {
+  private diffPreview: DiffPreviewService;
+
+  constructor(diffPreview: DiffPreviewService) {
+    this.diffPreview = diffPreview;
+  }
+
   public getActiveEditor(): vscode.TextEditor | undefined {
     return vscode.window.activeTextEditor;
   }
+
+  /**
+   * The editor chat actions should target. While the chat view has focus there may be
+   * no active text editor, so fall back to the first visible one.
+   */
+  public getTargetEditor(): vscode.TextEditor | undefined {
+    return vscode.window.activeTextEditor || vscode.window.visibleTextEditors.find(e => e.document.uri.scheme !== 'output');
+  }
   
   public getCurrentDocument(): vscode.TextDocument | undefined {
     const editor = this.getActiveEditor();
@@ -99,4 +114,48 @@ export class EditorService {
     
     return editor.document.getText(editor.selection);
   }
+
+  /** Inserts text at every cursor of the target editor. */
+  public async insertAtCursor(text: string): Promise<void> {
+    const editor = this.getTargetEditor();
+    if (!editor) throw new Error('No open editor to insert into');
+    const ok = await editor.edit(builder => {
+      editor.selections.forEach(selection => builder.insert(selection.active, text));
+    });
+    if (!ok) throw new Error('Failed to insert code');
+  }
+
+  /**
+   * Replaces the current selection after the user reviewed the change in a diff editor.
+   * Returns false when the change was rejected or the review dismissed.
+   */
+  public async replaceSelection(text: string): Promise<boolean> {
+    const editor = this.getTargetEditor();
+    if (!editor) throw new Error('No open editor to replace the selection in');
+    const document = editor.document;
+    const selection = editor.selection;
+    if (selection.isEmpty) throw new Error('Select the code to replace first');
+    const version = document.version;
+
+    const fullText = document.getText();
+    const proposed = fullText.slice(0, document.offsetAt(selection.start)) + text + fullText.slice(document.offsetAt(selection.end));
+    const decision = await this.diffPreview.review(document.uri, proposed, `Replace the selection in ${vscode.workspace.asRelativePath(document.uri)}?`);
+    if (decision !== 'accepted') return false;
+    if (document.version !== version) throw new Error('The document changed while the replacement was being reviewed');
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, selection, text);
+    if (!(await vscode.workspace.applyEdit(edit))) throw new Error('Failed to replace the selection');
+    return true;
+  }
+
+  /** Writes code to a workspace file through the diff preview. Returns false when rejected or dismissed. */
+  public async applyToFile(filePath: string, text: string): Promise<boolean> {
+    const result = await this.diffPreview.proposeFileContent(filePath, text);
+    return result.status === 'ok';
+  }
+
+  public async copyToClipboard(text: string): Promise<void> {
+    await vscode.env.clipboard.writeText(text);
+  }
 }
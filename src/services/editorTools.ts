@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { ToolRegistry } from './toolRegistry';
+import { WorkspaceSandbox } from './workspaceSandbox';
+import { DiagnosticsService, SeverityName } from './diagnosticsService';
+
+const MAX_BUFFER_CHARS = 200000;
+
+/**
+ * Tools that need editor state the MCP server process can't see: unsaved buffers,
+ * selections, open editors and diagnostics. They run in the extension host and are
+ * registered next to the MCP-backed tools; code navigation lives in CodeNavigationTools.
+ */
+export class EditorTools {
+  private sandbox: WorkspaceSandbox;
+  private diagnostics: DiagnosticsService;
+
+  constructor(sandbox: WorkspaceSandbox, diagnostics: DiagnosticsService) {
+    this.sandbox = sandbox;
+    this.diagnostics = diagnostics;
+  }
+
+  public register(registry: ToolRegistry): void {
+    registry.register({
+      name: 'read_open_buffer',
+      description: 'Read a file as it is in the editor, including unsaved changes. Defaults to the active editor',
+      parameters: { type: 'object', properties: { path: { type: 'string' } } }
+    }, args => this.readOpenBuffer(args));
+
+    registry.register({
+      name: 'get_selection',
+      description: 'Get the file, cursor position and selected text of the active editor',
+      parameters: { type: 'object', properties: {} }
+    }, () => this.getSelection());
+
+    registry.register({
+      name: 'list_open_editors',
+      description: 'List the files open in editor tabs, with unsaved (dirty) state and which one is active',
+      parameters: { type: 'object', properties: {} }
+    }, () => this.listOpenEditors());
+
+    registry.register({
+      name: 'get_diagnostics',
+      description: 'Get the errors and warnings VS Code currently reports (TypeScript, ESLint and other language servers), optionally for one file. Use it to check your edits',
+      parameters: { type: 'object', properties: { path: { type: 'string', description: 'Only this file; all files when omitted' }, severity: { type: 'string', enum: ['error', 'warning', 'information', 'hint'], description: 'Lowest severity to include (default warning)' }, maxResults: { type: 'number', description: 'Default 200' } } }
+    }, async args => this.diagnostics.collect({
+      uri: args.path ? await this.sandbox.resolve(args.path, args.folder) : undefined,
+      minSeverity: args.severity as SeverityName,
+      maxResults: args.maxResults
+    }));
+  }
+
+  private async openDocument(p?: string, folder?: string): Promise<vscode.TextDocument> {
+    if (!p) {
+      const editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+      if (!editor) throw new Error('No editor is open');
+      return editor.document;
+    }
+    const uri = await this.sandbox.resolve(p, folder);
+    // Prefer the already open document so unsaved changes are included
+    return vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString()) || await vscode.workspace.openTextDocument(uri);
+  }
+
+  private async readOpenBuffer(args: any): Promise<any> {
+    const document = await this.openDocument(args.path, args.folder);
+    const text = document.getText();
+    return {
+      path: vscode.workspace.asRelativePath(document.uri),
+      languageId: document.languageId,
+      isDirty: document.isDirty,
+      lineCount: document.lineCount,
+      content: text.slice(0, MAX_BUFFER_CHARS),
+      truncated: text.length > MAX_BUFFER_CHARS
+    };
+  }
+
+  private getSelection(): any {
+    const editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+    if (!editor) return { error: 'No editor is open' };
+    return {
+      path: vscode.workspace.asRelativePath(editor.document.uri),
+      languageId: editor.document.languageId,
+      cursor: this.toPosition(editor.selection.active),
+      selections: editor.selections.map(s => ({
+        start: this.toPosition(s.start),
+        end: this.toPosition(s.end),
+        text: editor.document.getText(s).slice(0, MAX_BUFFER_CHARS)
+      }))
+    };
+  }
+
+  private listOpenEditors(): any {
+    const active = vscode.window.activeTextEditor?.document.uri.toString();
+    const dirty = new Set(vscode.workspace.textDocuments.filter(d => d.isDirty).map(d => d.uri.toString()));
+    const uris: vscode.Uri[] = [];
+    const tabGroups = vscode.window.tabGroups;
+    if (tabGroups) {
+      for (const group of tabGroups.all) {
+        for (const tab of group.tabs) {
+          if (tab.input instanceof vscode.TabInputText) uris.push(tab.input.uri);
+        }
+      }
+    } else {
+      uris.push(...vscode.window.visibleTextEditors.map(e => e.document.uri));
+    }
+    const seen = new Set<string>();
+    const editors = uris
+      .filter(uri => (uri.scheme === 'file' || uri.scheme === 'untitled') && !seen.has(uri.toString()) && seen.add(uri.toString()))
+      .map(uri => ({
+        path: vscode.workspace.asRelativePath(uri),
+        isDirty: dirty.has(uri.toString()),
+        isActive: uri.toString() === active
+      }));
+    return { editors };
+  }
+
+  private toPosition(position: vscode.Position): { line: number; column: number } {
+    return { line: position.line + 1, column: position.character + 1 };
+  }
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { ConfigurationService } from './configurationService';
+
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+const LEVEL_RANK: Record<LogLevel, number> = { off: 0, error: 1, warn: 2, info: 3, debug: 4, trace: 5 };
+
+/** vscode.LogLevel values; spelled out because the enum is missing before VS Code 1.74. */
+const CHANNEL_LEVEL: Record<Exclude<LogLevel, 'off'>, number> = { trace: 1, debug: 2, info: 3, warn: 4, error: 5 };
+
+/** Object keys whose values are never written to the log. */
+const SECRET_KEYS = /^(api[-_]?key|authorization|x-api-key|token|access[-_]?token|secret|password)$/i;
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi, '$1 [REDACTED]'],
+  [/\bsk-[A-Za-z0-9_-]{8,}/g, 'sk-[REDACTED]'],
+  [/\b((?:api[-_]?key|x-api-key|access[-_]?token|authorization)["']?\s*[:=]\s*["']?)(?!Bearer\b|Basic\b|\[REDACTED\])[^\s"',}]+/gi, '$1[REDACTED]'],
+  [/([?&](?:key|api[-_]?key|token)=)[^&\s]+/gi, '$1[REDACTED]']
+];
+
+/** Removes API keys, bearer tokens and the registered secret values from a log line. */
+export function redact(text: string, secrets: Iterable<string> = []): string {
+  let result = text;
+  for (const secret of secrets) {
+    if (secret.length >= 8) result = result.split(secret).join('[REDACTED]');
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) result = result.replace(pattern, replacement);
+  return result;
+}
+
+/**
+ * The "OpenAI Agent" output channel. Messages below openaiAgent.logLevel are dropped
+ * and every line is redacted before it is written. Until initialize() is called
+ * (e.g. during activation) messages go to the console.
+ */
+export class Logger {
+  private channel: vscode.LogOutputChannel | vscode.OutputChannel | undefined;
+  private level: LogLevel = 'info';
+  private secrets = new Set<string>();
+
+  public initialize(configService: ConfigurationService): vscode.Disposable {
+    // Log output channels (timestamps, level colouring) need VS Code 1.74
+    try {
+      this.channel = vscode.window.createOutputChannel('OpenAI Agent', { log: true });
+    } catch {
+      this.channel = vscode.window.createOutputChannel('OpenAI Agent');
+    }
+    this.level = configService.getLogLevel();
+    const listener = vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('openaiAgent.logLevel')) this.level = configService.getLogLevel();
+    });
+    return {
+      dispose: () => {
+        listener.dispose();
+        this.channel?.dispose();
+        this.channel = undefined;
+      }
+    };
+  }
+
+  /** Registers a value (e.g. an API key) that is masked wherever it appears. */
+  public addSecret(value: string | undefined): void {
+    if (value) this.secrets.add(value);
+  }
+
+  public isEnabled(level: LogLevel): boolean {
+    return LEVEL_RANK[level] <= LEVEL_RANK[this.level];
+  }
+
+  public error(message: string, ...args: any[]): void { this.write('error', message, args); }
+  public warn(message: string, ...args: any[]): void { this.write('warn', message, args); }
+  public info(message: string, ...args: any[]): void { this.write('info', message, args); }
+  public debug(message: string, ...args: any[]): void { this.write('debug', message, args); }
+  public trace(message: string, ...args: any[]): void { this.write('trace', message, args); }
+
+  public show(): void {
+    this.channel?.show(true);
+  }
+
+  private write(level: Exclude<LogLevel, 'off'>, message: string, args: any[]): void {
+    if (!this.isEnabled(level)) return;
+    const line = redact([message, ...args.map(a => this.format(a))].join(' '), this.secrets);
+    const channel = this.channel;
+    if (!channel) {
+      (level === 'trace' ? console.debug : console[level])(line);
+    } else if ('logLevel' in channel && channel.logLevel <= CHANNEL_LEVEL[level]) {
+      channel[level](line);
+    } else {
+      // Plain channels, and log channels whose own level ("Developer: Set Log Level") would hide the line
+      channel.appendLine(`${new Date().toISOString()} [${level}] ${line}`);
+    }
+  }
+
+  private format(value: any): string {
+    if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+    if (typeof value === 'string') return value;
+    try {
+      return JSON.stringify(value, (key, v) => (SECRET_KEYS.test(key) ? '[REDACTED]' : v));
+    } catch {
+      return String(value);
+    }
+  }
+}
+
+export const logger = new Logger();
@@ -1,21 +1,70 @@
 import { spawn, ChildProcess } from 'child_process';
 import * as path from 'path';
+import { logger } from './logger';
+
+export interface WorkspaceRoot {
+  name: string;
+  path: string;
+}
+
+/** Error reported by the built-in MCP server, with its machine-readable code (e.g. PATH_OUTSIDE_WORKSPACE). */
+export class McpToolError extends Error {
+  public code?: string;
+  public data?: any;
+
+  constructor(message: string, data?: any) {
+    super(message);
+    this.name = 'McpToolError';
+    this.code = data?.code;
+    this.data = data;
+  }
+}
+
+/** Forwards a server's stderr line by line into the log. */
+export function pipeStderr(proc: ChildProcess, label: string): void {
+  let buffer = '';
+  proc.stderr?.setEncoding('utf8');
+  proc.stderr?.on('data', (chunk: string) => {
+    buffer += chunk;
+    let idx;
+    while ((idx = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, idx).trimEnd();
+      buffer = buffer.slice(idx + 1);
+      if (line) logger.info(`[${label}] ${line}`);
+    }
+  });
+}
 
 export class McpClient {
   private proc: ChildProcess | null = null;
   private nextId = 1;
   private pending = new Map<number, { resolve: (v: any) => void; reject: (e: any) => void }>();
 
-  async start(workspaceDir: string): Promise<void> {
+  public get running(): boolean {
+    return !!this.proc;
+  }
+
+  /** Starts the server sandboxed to the workspace folders plus any extra allowed roots. The first folder is the default. */
+  async start(folders: WorkspaceRoot[], allowedRoots: string[] = []): Promise<void> {
     if (this.proc) return;
     // Find the extension directory and use the MCP server from there
     const extensionDir = path.dirname(__dirname);
     const serverPath = path.join(extensionDir, '..', 'mcp-server', 'server.js');
     const proc = spawn(process.execPath, [serverPath], {
-      env: { ...process.env, WORKSPACE_DIR: workspaceDir },
-      stdio: ['pipe', 'pipe', 'inherit']
+      env: {
+        ...process.env,
+        WORKSPACE_DIR: folders[0]?.path || process.cwd(),
+        WORKSPACE_FOLDERS: JSON.stringify(folders),
+        ALLOWED_ROOTS: allowedRoots.join(path.delimiter)
+      },
+      stdio: ['pipe', 'pipe', 'pipe']
     });
     this.proc = proc;
+    pipeStderr(proc, 'mcp');
+    proc.on('exit', (code, signal) => {
+      logger.info(`MCP server exited (${code ?? signal})`);
+      if (this.proc === proc) this.dispose();
+    });
 
     let buffer = '';
     if (!proc.stdout) throw new Error('Failed to start MCP server: no stdout');
@@ -33,11 +82,11 @@ export class McpClient {
           const pending = this.pending.get(id);
           if (pending) {
             this.pending.delete(id);
-            if (error) pending.reject(new Error((error && error.message) || 'MCP error'));
+            if (error) pending.reject(new McpToolError((error && error.message) || 'MCP error', error && error.data));
             else pending.resolve(result);
           }
         } catch {
-          // ignore malformed lines
+          logger.debug('Ignoring malformed MCP output:', line);
         }
       }
     });
@@ -60,16 +109,28 @@ export class McpClient {
     });
   }
 
-  readFile(p: string, maxBytes?: number) {
-    return this.request('read_file', { path: p, maxBytes });
+  readFile(p: string, maxBytes?: number, folder?: string) {
+    return this.request('read_file', { path: p, maxBytes, folder });
   }
 
-  searchWorkspace(opts: { root?: string; includeGlobs?: string[]; excludeGlobs?: string[]; query?: string; maxMatches?: number; maxFileBytes?: number; }) {
+  searchWorkspace(opts: { root?: string; folder?: string; includeGlobs?: string[]; excludeGlobs?: string[]; query?: string; regex?: boolean; ignoreCase?: boolean; contextLines?: number; maxMatches?: number; maxMatchesPerFile?: number; maxFileBytes?: number; maxResponseBytes?: number; }) {
     return this.request('search_workspace', opts);
   }
 
+  listDirectory(opts: { path?: string; folder?: string; depth?: number; includeHidden?: boolean; respectGitignore?: boolean; maxEntries?: number; }) {
+    return this.request('list_directory', opts);
+  }
+
+  fileStat(p: string, folder?: string) {
+    return this.request('file_stat', { path: p, folder });
+  }
+
+  /** Stops the server; requests still waiting for an answer fail right away instead of timing out. */
   dispose() {
     try { this.proc?.kill(); } catch {}
     this.proc = null;
+    const error = new Error('MCP server stopped');
+    for (const pending of this.pending.values()) pending.reject(error);
+    this.pending.clear();
   }
 }
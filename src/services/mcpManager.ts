@@ -1,4 +1,6 @@
 import { spawn, ChildProcess } from 'child_process';
+import { pipeStderr } from './mcpClient';
+import { logger } from './logger';
 
 export interface McpToolDef {
   name: string;
@@ -26,6 +28,11 @@ export class McpProcess {
   constructor(id: string, proc: ChildProcess) {
     this.id = id;
     this.proc = proc;
+    proc.on('error', (e) => {
+      logger.warn(`MCP server ${id} failed:`, e);
+      for (const p of this.pending.values()) p.reject(e);
+      this.pending.clear();
+    });
     if (!proc.stdout) throw new Error('No stdout');
     proc.stdout.setEncoding('utf8');
     proc.stdout.on('data', (chunk: string) => {
@@ -72,19 +79,47 @@ export class McpManager {
   processes = new Map<string, McpProcess>();
   toolIndex = new Map<string, { serverId: string; method: string; def: McpToolDef }>();
 
-  async startServers(configs: McpServerConfig[]) {
+  async startServers(configs: McpServerConfig[], workspaceDir?: string) {
+    const expand = (v: string) => workspaceDir ? v.replace(/\$\{workspaceFolder\}/g, workspaceDir) : v;
     for (const cfg of configs) {
+      if (!cfg || !cfg.id || !cfg.command) continue;
       if (this.processes.has(cfg.id)) continue;
-      const proc = spawn(cfg.command, cfg.args || [], { cwd: cfg.cwd || process.cwd(), env: { ...process.env, ...(cfg.env||{}) }, stdio: ['pipe', 'pipe', 'inherit'] });
+      const args = (cfg.args || []).map(expand);
+      const cwd = cfg.cwd ? expand(cfg.cwd) : (workspaceDir || process.cwd());
+      const env: Record<string,string> = {};
+      for (const [k, v] of Object.entries(cfg.env || {})) env[k] = expand(v);
+      const proc = spawn(expand(cfg.command), args, { cwd, env: { ...process.env, ...env }, stdio: ['pipe', 'pipe', 'pipe'] });
+      pipeStderr(proc, `mcp:${cfg.id}`);
       const mp = new McpProcess(cfg.id, proc);
       this.processes.set(cfg.id, mp);
       for (const tool of cfg.tools || []) {
-        const key = `mcp:${cfg.id}:${tool.name}`;
+        if (!tool || !tool.name) continue;
+        const key = this.toolName(cfg.id, tool.name);
         this.toolIndex.set(key, { serverId: cfg.id, method: tool.method || tool.name, def: tool });
       }
     }
   }
 
+  /**
+   * Function name sent to the model for a server's tool. OpenAI only accepts
+   * ^[a-zA-Z0-9_-]{1,64}$, so other characters become _, long names are cut and
+   * collisions get a numeric suffix; toolIndex maps the name back to the server.
+   */
+  private toolName(serverId: string, tool: string): string {
+    const clean = (v: string) => v.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const base = `mcp__${clean(serverId)}__${clean(tool)}`.slice(0, 64);
+    let name = base;
+    for (let i = 2; this.toolIndex.has(name); i++) {
+      const suffix = `_${i}`;
+      name = base.slice(0, 64 - suffix.length) + suffix;
+    }
+    return name;
+  }
+
+  has(name: string): boolean {
+    return this.toolIndex.has(name);
+  }
+
   listAssistantTools() {
     const tools: any[] = [];
     for (const [key, entry] of this.toolIndex.entries()) {
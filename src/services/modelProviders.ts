@@ -0,0 +1,128 @@
+export type ProviderId = 'openai' | 'azure' | 'compatible';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  compatible: 'OpenAI-compatible server'
+};
+
+export interface AzureSettings {
+  endpoint: string;
+  deployment: string;
+  apiVersion: string;
+}
+
+export interface CompatibleSettings {
+  baseUrl: string;
+  model?: string;
+  /** First model listed by the server's /models endpoint, used when model is not set */
+  serverModel?: string;
+}
+
+/**
+ * A backend speaking the OpenAI REST API. Providers differ in how URLs are built,
+ * how requests are authenticated and what the model field has to contain.
+ */
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  readonly requiresApiKey: boolean;
+  readonly supportsAssistants: boolean;
+  buildUrl(endpoint: string): string;
+  headers(apiKey?: string): Record<string, string>;
+  resolveModel(model: string): string;
+}
+
+export class OpenAIProvider implements ModelProvider {
+  readonly id = 'openai';
+  readonly label = PROVIDER_LABELS.openai;
+  readonly requiresApiKey = true;
+  readonly supportsAssistants = true;
+  private baseURL = 'https://api.openai.com/v1';
+
+  buildUrl(endpoint: string): string {
+    return `${this.baseURL}${endpoint}`;
+  }
+
+  headers(apiKey?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'OpenAI-Beta': 'assistants=v2' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    return headers;
+  }
+
+  resolveModel(model: string): string {
+    return model;
+  }
+}
+
+export class AzureOpenAIProvider implements ModelProvider {
+  readonly id = 'azure';
+  readonly label = PROVIDER_LABELS.azure;
+  readonly requiresApiKey = true;
+  readonly supportsAssistants = true;
+  private settings: AzureSettings;
+
+  constructor(settings: AzureSettings) {
+    if (!settings.endpoint) throw new Error('Azure OpenAI endpoint is not set (openaiAgent.azure.endpoint)');
+    if (!settings.deployment) throw new Error('Azure OpenAI deployment is not set (openaiAgent.azure.deployment)');
+    this.settings = settings;
+  }
+
+  buildUrl(endpoint: string): string {
+    const base = this.settings.endpoint.replace(/\/+$/, '');
+    // Chat Completions are addressed per deployment, Assistants/Threads live under /openai
+    const path = endpoint.startsWith('/chat/completions')
+      ? `/openai/deployments/${encodeURIComponent(this.settings.deployment)}${endpoint}`
+      : `/openai${endpoint}`;
+    const separator = path.includes('?') ? '&' : '?';
+    return `${base}${path}${separator}api-version=${encodeURIComponent(this.settings.apiVersion)}`;
+  }
+
+  headers(apiKey?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'OpenAI-Beta': 'assistants=v2' };
+    if (apiKey) headers['api-key'] = apiKey;
+    return headers;
+  }
+
+  resolveModel(): string {
+    // Azure expects the deployment name wherever OpenAI expects a model
+    return this.settings.deployment;
+  }
+}
+
+export class CompatibleProvider implements ModelProvider {
+  readonly id = 'compatible';
+  readonly label = PROVIDER_LABELS.compatible;
+  readonly requiresApiKey = false;
+  readonly supportsAssistants = false;
+  private settings: CompatibleSettings;
+
+  constructor(settings: CompatibleSettings) {
+    if (!settings.baseUrl) throw new Error('Base URL is not set (openaiAgent.compatible.baseUrl)');
+    this.settings = settings;
+  }
+
+  get baseUrl(): string {
+    return this.settings.baseUrl;
+  }
+
+  /** Whether a model is known, either configured or reported by the server. */
+  get hasModel(): boolean {
+    return !!(this.settings.model || this.settings.serverModel);
+  }
+
+  buildUrl(endpoint: string): string {
+    return `${this.settings.baseUrl.replace(/\/+$/, '')}${endpoint}`;
+  }
+
+  headers(apiKey?: string): Record<string, string> {
+    return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  }
+
+  resolveModel(): string {
+    // openaiAgent.model lists OpenAI models, which local servers reject
+    const model = this.settings.model || this.settings.serverModel;
+    if (!model) throw new Error('Model is not set (openaiAgent.compatible.model)');
+    return model;
+  }
+}
@@ -1,26 +1,96 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ConfigurationService } from './configurationService';
-import { McpClient } from './mcpClient';
+import { McpClient, McpToolError, WorkspaceRoot } from './mcpClient';
+import { McpManager } from './mcpManager';
+import { WriteGuard } from './writeGuard';
+import { CommandRunner } from './commandRunner';
+import { DiagnosticsService } from './diagnosticsService';
+import { ToolRegistry, ToolCallContext } from './toolRegistry';
+import { EditorTools } from './editorTools';
+import { CodeNavigationTools } from './codeNavigationTools';
+import { CheckpointService, CheckpointInfo, Checkpoint } from './checkpointService';
+import { logger } from './logger';
+import { RetryPolicy, HttpError } from './retryPolicy';
+import { DiffPreviewService } from './diffPreviewService';
+import { WorkspaceSandbox } from './workspaceSandbox';
+import { ModelProvider, CompatibleProvider } from './modelProviders';
+import { ConversationStore, StoredConversation, StoredMessage, StoredToolCall } from './conversationStore';
+
+export class RunCancelledError extends Error {
+  constructor() {
+    super('Run cancelled by user');
+    this.name = 'RunCancelledError';
+  }
+}
+
+/**
+ * What one chat() call collects: its tool calls, cost and file checkpoint. Each call
+ * has its own, so a stopped run that is still finishing can't mix with the next one.
+ */
+interface RunLog {
+  toolCalls: StoredToolCall[];
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  model?: string;
+  checkpoint: Checkpoint;
+}
 
 export class OpenAIService {
-  private baseURL: string;
+  private static readonly LOCAL_THREAD_PREFIX = 'local_';
+  private static readonly MAX_TOOL_ITERATIONS = 25;
+  private static readonly MAX_STORED_RESULT_CHARS = 2000;
+  private static readonly MAX_CONTEXT_CHARS = 200000;
+  private static readonly MIN_POLL_INTERVAL_MS = 500;
+  private static readonly MAX_POLL_INTERVAL_MS = 5000;
   private configService: ConfigurationService;
   private assistantId: string | undefined;
   private threadId: string | undefined;
   private mcp: McpClient | null = null;
+  private mcpManager: McpManager | null = null;
+  private writeGuard: WriteGuard;
+  private commandRunner: CommandRunner;
+  private diagnostics: DiagnosticsService;
+  private diffPreview: DiffPreviewService;
+  private conversationStore: ConversationStore;
+  private checkpoints: CheckpointService;
+  private tools: ToolRegistry;
+  private retryPolicy: RetryPolicy;
+  /** Number of chat() calls in progress; retries are only reported in the chat view during one */
+  private activeRuns = 0;
   private basePath: string;
   private currentRunId: string | undefined;
+  /** Aborts the request, stream or poll wait the current run is blocked on */
+  private runAbort: AbortController | undefined;
   private sessionCost: number = 0;
   private _view?: vscode.WebviewView;
 
-  constructor(configService: ConfigurationService, basePath: string) {
+  constructor(configService: ConfigurationService, basePath: string, diffPreview: DiffPreviewService, conversationStore: ConversationStore, diagnostics: DiagnosticsService, checkpoints: CheckpointService) {
     this.configService = configService;
     this.basePath = basePath;
-    this.baseURL = 'https://api.openai.com/v1';
+    this.writeGuard = new WriteGuard(configService);
+    this.commandRunner = new CommandRunner(configService);
+    this.retryPolicy = new RetryPolicy(configService);
+    this.diagnostics = diagnostics;
+    this.diffPreview = diffPreview;
+    this.conversationStore = conversationStore;
+    this.checkpoints = checkpoints;
+    this.tools = new ToolRegistry();
+    this.registerTools();
+  }
+
+  private getProvider(): ModelProvider {
+    return this.configService.getModelProvider();
   }
 
-  private authHeaders(apiKey: string) {
-    return { 'Authorization': `Bearer ${apiKey}`, 'OpenAI-Beta': 'assistants=v2' };
+  /** Returns the key of the active provider; providers without auth get an empty string. */
+  private async requireApiKey(): Promise<string> {
+    const provider = this.getProvider();
+    const apiKey = await this.configService.getApiKey(provider.id);
+    logger.addSecret(apiKey);
+    if (!apiKey && provider.requiresApiKey) throw new Error(`${provider.label} API key is not set`);
+    return apiKey || '';
   }
 
   // Pricing per 1M tokens (as of December 2024)
@@ -53,75 +123,148 @@ export class OpenAIService {
     this.sessionCost = 0;
   }
 
+  /**
+   * Sends a request and repeats it on rate limits, transient server errors and network
+   * failures as far as the RetryPolicy allows. Returns the last response, ok or not;
+   * throws the network error when no response was received at all.
+   */
+  private async fetchWithRetry(method: string, endpoint: string, url: string, options: RequestInit): Promise<Response> {
+    const signal = options.signal || undefined;
+    for (let attempt = 0; ; attempt++) {
+      const startedAt = Date.now();
+      let response: Response | undefined;
+      let failure: any;
+      try {
+        response = await fetch(url, options);
+      } catch (e: any) {
+        if (signal?.aborted) throw e;
+        failure = e;
+        logger.warn(`${method} ${endpoint} failed after ${Date.now() - startedAt} ms:`, e?.message || String(e));
+      }
+      if (response?.ok) return response;
+
+      const errorCode = response?.status === 429
+        ? ((await response.clone().json().catch(() => ({}))) as any).error?.code
+        : undefined;
+      const delay = attempt < this.retryPolicy.maxRetries && this.retryPolicy.shouldRetry(method, endpoint, response?.status, errorCode)
+        ? this.retryPolicy.delayMs(attempt, response?.headers)
+        : undefined;
+      if (delay === undefined) {
+        if (response) return response;
+        throw failure;
+      }
+
+      const reason = !response ? 'Network error' : response.status === 429 ? 'Rate limited' : `Server error ${response.status}`;
+      const seconds = Math.ceil(delay / 1000);
+      logger.warn(`${method} ${endpoint}: ${reason}${response ? ` (${this.describeResponse(response, Date.now() - startedAt)})` : ''}, retry ${attempt + 1}/${this.retryPolicy.maxRetries} in ${delay} ms`);
+      this.notifyRetry(`${reason}, retrying in ${seconds}s (attempt ${attempt + 2} of ${this.retryPolicy.maxRetries + 1})...`);
+      await this.sleep(delay, signal);
+    }
+  }
+
+  /** Shows retry progress in the thinking indicator while a chat request runs. */
+  private notifyRetry(text: string): void {
+    if (this.activeRuns > 0) this._view?.webview.postMessage({ type: 'updateThinking', content: text });
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(new RunCancelledError());
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RunCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /** Status, latency and the provider's request id of a response, for the log. */
+  private describeResponse(response: Response, latencyMs: number): string {
+    const requestId = response.headers.get('x-request-id') || response.headers.get('apim-request-id');
+    return `${response.status} (${latencyMs} ms${requestId ? `, request ${requestId}` : ''})`;
+  }
+
   public setView(view: vscode.WebviewView): void {
     this._view = view;
   }
 
-  private async makeRequest(method: string, endpoint: string, data?: any, apiKey?: string): Promise<any> {
-    const url = `${this.baseURL}${endpoint}`;
+  private async makeRequest(method: string, endpoint: string, data?: any, apiKey?: string, signal?: AbortSignal): Promise<any> {
+    const provider = this.getProvider();
+    const url = provider.buildUrl(endpoint);
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'OpenAI-Beta': 'assistants=v2'
+      ...provider.headers(apiKey)
     };
 
-    if (apiKey) {
-      headers['Authorization'] = `Bearer ${apiKey}`;
-    }
-
     const options: RequestInit = {
       method,
-      headers
+      headers,
+      signal
     };
 
     if (data && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
       options.body = JSON.stringify(data);
     }
 
-    const response = await fetch(url, options);
+    logger.trace(`${method} ${url}`, data ?? '');
+    const startedAt = Date.now();
+    const response = await this.fetchWithRetry(method, endpoint, url, options);
+    const meta = this.describeResponse(response, Date.now() - startedAt);
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({})) as any;
-      throw new Error(`HTTP ${response.status}: ${errorData.error?.message || response.statusText}`);
+      logger.error(`${method} ${endpoint} → ${meta}:`, errorData.error?.message || response.statusText);
+      throw new HttpError(response.status, errorData.error?.message || response.statusText, errorData.error?.code);
     }
 
-    return await response.json();
+    const result: any = await response.json();
+    // Runs are what bug reports are about, so their id and status are always included
+    const run = result?.object === 'thread.run' ? ` run=${result.id} status=${result.status}` : '';
+    logger.debug(`${method} ${endpoint} → ${meta}${run}`);
+    return result;
   }
 
   public async initialize(): Promise<void> {
     try {
-      const apiKey = await this.configService.getApiKey();
-      if (!apiKey) throw new Error('OpenAI API key is not set');
+      const apiKey = await this.requireApiKey();
 
-      try {
-        this.mcp = new McpClient();
-        // Get the workspace folder path instead of extension path
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        const root = workspaceFolder || process.cwd();
-        console.log('Starting MCP server with workspace path:', root);
-        await this.mcp.start(root);
-      } catch (e) {
-        console.warn('Failed to start MCP server, proceeding without tools:', e);
-      }
+      // Started once: restarting would fail the tool calls of a run in progress
+      if (!this.mcp?.running) await this.restartMcp();
+      if (!this.mcpManager) await this.restartExternalMcp();
 
       // Clear any existing assistant to ensure we create a new one with the correct model
-      console.log('Clearing existing assistant to ensure correct model usage');
+      logger.debug('Clearing existing assistant to ensure correct model usage');
       await this.configService.setAssistantId('');
       
       // Ensure we have a valid model set
       const currentModel = this.configService.getModel();
-      console.log('Current model from config:', currentModel);
+      logger.debug('Current model from config:', currentModel);
       
-      // If model is invalid, set a default one
+      // If model is invalid, set a default one. The list only applies to OpenAI: Azure
+      // uses its deployment and compatible servers their own model names
       const validModels = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4-turbo-preview', 'gpt-4', 'gpt-3.5-turbo'];
-      if (!validModels.includes(currentModel)) {
-        console.log('Invalid model detected, setting default model');
+      if (this.getProvider().id === 'openai' && !validModels.includes(currentModel)) {
+        logger.debug('Invalid model detected, setting default model');
         await this.configService.setModel('gpt-4o-mini');
       }
+      await this.ensureServerModel(apiKey, true);
       
-      this.assistantId = await this.getOrCreateAssistant(apiKey);
-      console.log('Assistant created with model:', currentModel, 'ID:', this.assistantId);
+      // Local (Chat Completions) threads don't need an assistant on the server
       const existing = this.configService.getActiveThreadId();
-      if (existing) { this.threadId = existing; } else { this.threadId = await this.createThread(apiKey);
+      const needsAssistant = existing ? !this.isLocalThread(existing) : this.getEngine() === 'assistants';
+      if (needsAssistant) {
+        const provider = this.getProvider();
+        if (!provider.supportsAssistants) {
+          throw new Error(`${provider.label} does not support the Assistants API. Start a new thread or use the Chat Completions engine.`);
+        }
+        this.assistantId = await this.getOrCreateAssistant(apiKey);
+        logger.info('Assistant created with model:', currentModel, 'ID:', this.assistantId);
+      }
+      if (existing) { this.threadId = existing; } else { this.threadId = await this.createConversation(apiKey);
       const list = this.configService.getThreads();
       if (!list.includes(this.threadId)) { list.push(this.threadId); await this.configService.setThreads(list); }
       await this.configService.setActiveThreadId(this.threadId);
@@ -132,16 +275,119 @@ export class OpenAIService {
 
       vscode.window.showInformationMessage('OpenAI Agent initialized successfully');
     } catch (error: any) {
-      console.error('Failed to initialize OpenAI service:', error);
+      logger.error('Failed to initialize OpenAI service:', error);
       vscode.window.showErrorMessage(`Failed to initialize OpenAI Agent: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * (Re)starts the built-in MCP server sandboxed to the current workspace folders, e.g.
+   * after folders were added or removed. The assistant and the threads are left alone.
+   */
+  private async restartMcp(): Promise<void> {
+    try {
+      this.mcp?.dispose();
+      this.mcp = new McpClient();
+      // Every folder of a multi-root workspace is exposed; the first one is the default
+      const roots = this.getWorkspaceRoots();
+      logger.info('Starting MCP server with workspace folders:', roots);
+      await this.mcp.start(roots, this.configService.getAllowedRoots());
+    } catch (e) {
+      logger.warn('Failed to start MCP server, proceeding without tools:', e);
+    }
+  }
+
+  /** (Re)starts the external MCP servers from openaiAgent.mcp.servers. */
+  private async restartExternalMcp(): Promise<void> {
+    try {
+      this.mcpManager?.dispose();
+      this.mcpManager = new McpManager();
+      const servers = this.configService.getMcpServers();
+      if (servers.length > 0) {
+        logger.info('Starting external MCP servers:', servers.map(s => s.id));
+        await this.mcpManager.startServers(servers, vscode.workspace.workspaceFolders?.[0]?.uri.fsPath);
+      }
+    } catch (e) {
+      logger.warn('Failed to start external MCP servers, proceeding without them:', e);
+    }
+  }
+
+  /** Restarts the built-in and the external MCP servers (OpenAI Agent: Reload MCP Servers). */
+  public async reloadMcpServers(): Promise<void> {
+    await this.restartMcp();
+    await this.restartExternalMcp();
+    await this.refreshAssistantTools();
+  }
+
+  /**
+   * Workspace folders were added or removed: restarts the built-in server with the new
+   * sandbox and updates the assistant, whose tools only take a folder parameter in
+   * multi-root workspaces.
+   */
+  public async onWorkspaceFoldersChanged(): Promise<void> {
+    await this.restartMcp();
+    await this.refreshAssistantTools();
+  }
+
+  /** Sends the current tool schemas and instructions to the assistant on the server. */
+  private async refreshAssistantTools(): Promise<void> {
+    if (!this.assistantId) return;
+    try {
+      if (!this.getProvider().supportsAssistants) return;
+      const apiKey = await this.requireApiKey();
+      await this.makeRequest('POST', `/assistants/${this.assistantId}`, { tools: this.getAssistantTools(), instructions: this.getAssistantInstructions() }, apiKey);
+      logger.info('Updated the tools of assistant', this.assistantId);
+    } catch (e) {
+      logger.warn('Failed to update the assistant tools:', e);
+    }
+  }
+
+  private getAssistantTools(): any[] {
+    const tools: any[] = [{ type: 'code_interpreter' }, ...this.tools.definitions()];
+    if (this.getWorkspaceRoots().length > 1) {
+      // In multi-root workspaces every path-based tool can address a folder by name
+      for (const tool of tools) {
+        const properties = tool.function?.parameters?.properties;
+        if (properties && (properties.path || properties.root)) {
+          properties.folder = { type: 'string', description: 'Workspace folder name; defaults to the first folder. A "folder:" path prefix works too' };
+        }
+      }
+    }
+    return tools;
+  }
+
+  private getAssistantInstructions(): string {
+    return `You are an AI programming assistant embedded in VS Code.\nYour primary role is to help users write code by providing intelligent code completions and suggestions.\nAnalyze the code context provided and generate relevant, high-quality code completions.\nFocus on producing working, efficient, and idiomatic code in the language being used.\nWhen possible, follow the coding style evident in the existing code.\nKeep your responses focused on code completion unless specifically asked for explanations.\n\nIMPORTANT: When working with files, always use relative paths from the workspace root. The workspace root is the project directory that the user has open in VS Code, not the extension directory.\nTo change existing files prefer apply_patch, search_replace or replace_range over rewriting the whole file with upsert_file.\nTo navigate code prefer find_symbol, document_symbols, go_to_definition and find_references over searching text with search_workspace.`;
+  }
+
+  private getWorkspaceRoots(): WorkspaceRoot[] {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) return [{ name: path.basename(process.cwd()), path: process.cwd() }];
+    return folders.map(f => ({ name: f.name, path: f.uri.fsPath }));
+  }
+
+  /** Describes the workspace folders; sent with every run because they can change after the assistant was created. */
+  private getWorkspaceInstructions(): string {
+    const roots = this.getWorkspaceRoots();
+    if (roots.length === 1) return `The workspace root is ${roots[0].path}.`;
+    const list = roots.map((r, i) => `- ${r.name}: ${r.path}${i === 0 ? ' (default)' : ''}`).join('\n');
+    return `This is a multi-root workspace with these folders:\n${list}\nRelative paths resolve against the default folder. To address another folder, prefix the path with its name (e.g. "${roots[1].name}:src/index.ts") or pass the "folder" parameter. search_workspace searches all folders unless a root or folder is given.`;
+  }
+
+  /** Tools and workspace layout are passed per run so assistants created earlier stay up to date. */
+  private getRunOptions(): any {
+    return {
+      assistant_id: this.assistantId,
+      tools: this.getAssistantTools(),
+      additional_instructions: this.getWorkspaceInstructions()
+    };
+  }
+
   private async getOrCreateAssistant(apiKey: string): Promise<string> {
     const savedAssistantId = this.configService.getAssistantId();
     const model = this.configService.getModel();
-    console.log('getOrCreateAssistant called with model:', model);
+    logger.debug('getOrCreateAssistant called with model:', model);
     
     if (savedAssistantId) {
       try {
@@ -155,22 +401,14 @@ export class OpenAIService {
     try {
       let response;
       try {
-        const modelToUse = this.configService.getModel();
-        console.log('Creating assistant with model:', modelToUse);
+        const modelToUse = this.getProvider().resolveModel(this.configService.getModel());
+        logger.info('Creating assistant with model:', modelToUse);
         response = await this.makeRequest('POST', '/assistants', {
         name: 'VS Code Coding Assistant',
         description: 'An AI assistant that helps with coding in VS Code',
         model: modelToUse,
-        tools: [
-          { type: 'code_interpreter' },
-          { type: 'function', function: { name: 'read_file', description: 'Read a file from the workspace', parameters: { type: 'object', properties: { path: { type: 'string' }, maxBytes: { type: 'number' } }, required: ['path'] } } },
-          { type: 'function', function: { name: 'search_workspace', description: 'Search files in the workspace', parameters: { type: 'object', properties: { root: { type: 'string' }, includeGlobs: { type: 'array', items: { type: 'string' } }, excludeGlobs: { type: 'array', items: { type: 'string' } }, query: { type: 'string' }, maxMatches: { type: 'number' }, maxFileBytes: { type: 'number' } } } } },
-          { type: 'function', function: { name: 'upsert_file', description: 'Create or overwrite a file with given content', parameters: { type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path','content'] } } },
-          { type: 'function', function: { name: 'append_file', description: 'Append content to a file (creates if missing)', parameters: { type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path','content'] } } },
-          { type: 'function', function: { name: 'make_dir', description: 'Create a directory (recursive)', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } } },
-          { type: 'function', function: { name: 'delete_file', description: 'Delete a file', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } } }
-        ],
-        instructions: `You are an AI programming assistant embedded in VS Code.\nYour primary role is to help users write code by providing intelligent code completions and suggestions.\nAnalyze the code context provided and generate relevant, high-quality code completions.\nFocus on producing working, efficient, and idiomatic code in the language being used.\nWhen possible, follow the coding style evident in the existing code.\nKeep your responses focused on code completion unless specifically asked for explanations.\n\nIMPORTANT: When working with files, always use relative paths from the workspace root. The workspace root is the project directory that the user has open in VS Code, not the extension directory.`
+        tools: this.getAssistantTools(),
+        instructions: this.getAssistantInstructions()
       }, apiKey);
       } catch (e: any) {
         const msg = e?.message || '';
@@ -180,16 +418,8 @@ export class OpenAIService {
             name: 'VS Code Coding Assistant',
             description: 'An AI assistant that helps with coding in VS Code',
             model: fallbackModel,
-            tools: [
-              { type: 'code_interpreter' },
-              { type: 'function', function: { name: 'read_file', description: 'Read a file from the workspace', parameters: { type: 'object', properties: { path: { type: 'string' }, maxBytes: { type: 'number' } }, required: ['path'] } } },
-              { type: 'function', function: { name: 'search_workspace', description: 'Search files in the workspace', parameters: { type: 'object', properties: { root: { type: 'string' }, includeGlobs: { type: 'array', items: { type: 'string' } }, excludeGlobs: { type: 'array', items: { type: 'string' } }, query: { type: 'string' }, maxMatches: { type: 'number' }, maxFileBytes: { type: 'number' } } } } },
-              { type: 'function', function: { name: 'upsert_file', description: 'Create or overwrite a file with given content', parameters: { type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path','content'] } } },
-              { type: 'function', function: { name: 'append_file', description: 'Append content to a file (creates if missing)', parameters: { type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path','content'] } } },
-              { type: 'function', function: { name: 'make_dir', description: 'Create a directory (recursive)', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } } },
-              { type: 'function', function: { name: 'delete_file', description: 'Delete a file', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } } }
-            ],
-            instructions: `You are an AI programming assistant embedded in VS Code.\nYour primary role is to help users write code by providing intelligent code completions and suggestions.\nAnalyze the code context provided and generate relevant, high-quality code completions.\nFocus on producing working, efficient, and idiomatic code in the language being used.\nWhen possible, follow the coding style evident in the existing code.\nKeep your responses focused on code completion unless specifically asked for explanations.\n\nIMPORTANT: When working with files, always use relative paths from the workspace root. The workspace root is the project directory that the user has open in VS Code, not the extension directory.`
+            tools: this.getAssistantTools(),
+            instructions: this.getAssistantInstructions()
           }, apiKey);
         } else { throw e; }
       }
@@ -198,7 +428,7 @@ export class OpenAIService {
       this.configService.setAssistantId(assistantId);
       return assistantId;
     } catch (error: any) {
-      console.error('Error creating assistant:', error.message);
+      logger.error('Error creating assistant:', error.message);
       throw new Error(`Failed to create OpenAI assistant: ${error.message}`);
     }
   }
@@ -208,195 +438,780 @@ export class OpenAIService {
       const response = await this.makeRequest('POST', '/threads', {}, apiKey);
       return response.id;
     } catch (error: any) {
-      console.error('Error creating thread:', error.message);
+      logger.error('Error creating thread:', error.message);
       throw new Error(`Failed to create thread: ${error.message}`);
     }
   }
 
-  public async getCompletion(codeContext: string, language: string): Promise<string> {
-    const apiKey = await this.configService.getApiKey();
-    if (!apiKey || !this.assistantId || !this.threadId) {
-      await this.initialize();
-      if (!apiKey || !this.assistantId || !this.threadId) throw new Error('OpenAI Agent not properly initialized');
+  /** Engine used for new threads; providers without Assistants support always use Chat Completions. */
+  private getEngine(): 'assistants' | 'chatCompletions' {
+    if (!this.getProvider().supportsAssistants) return 'chatCompletions';
+    return this.configService.getEngine();
+  }
+
+  private isLocalThread(threadId: string): boolean {
+    return threadId.startsWith(OpenAIService.LOCAL_THREAD_PREFIX);
+  }
+
+  private newLocalThreadId(): string {
+    return `${OpenAIService.LOCAL_THREAD_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /** Creates a thread for the configured engine: a server thread or a locally stored conversation. */
+  private async createConversation(apiKey: string): Promise<string> {
+    let id: string;
+    if (this.getEngine() === 'chatCompletions') {
+      id = this.newLocalThreadId();
+      await this.conversationStore.saveContext(id, []);
+    } else {
+      id = await this.createThread(apiKey);
     }
     try {
-      await this.makeRequest('POST', `/threads/${this.threadId}/messages`, {
-        role: 'user',
-        content: [{ type: 'text', text: `I'm writing code in ${language}. Here's the context\n\n${codeContext}\n\nPlease complete the next part of the code.` }]
-      }, apiKey);
-      const runResponse = await this.makeRequest('POST', `/threads/${this.threadId}/runs`, { assistant_id: this.assistantId }, apiKey);
-      const runId = runResponse.id;
-      return await this.waitForRunCompletion(apiKey, runId);
-    } catch (error: any) {
-      console.error('OpenAI API Error:', error.message);
-      throw new Error(`OpenAI API Error: ${error.message}`);
+      const now = Date.now();
+      await this.conversationStore.save({ id, createdAt: now, updatedAt: now, messages: [] });
+    } catch (e) {
+      logger.warn('Failed to store conversation locally:', e);
+    }
+    return id;
+  }
+
+  /**
+   * Asks an OpenAI-compatible server for its model when openaiAgent.compatible.model is
+   * not set. The answer is kept per base URL; refresh asks again (on initialize).
+   */
+  private async ensureServerModel(apiKey: string, refresh = false): Promise<void> {
+    const provider = this.getProvider();
+    if (!(provider instanceof CompatibleProvider) || (provider.hasModel && !refresh)) return;
+    if (this.configService.getConfiguration().get<string>('compatible.model')) return;
+    let model: string | undefined;
+    try {
+      const result = await this.makeRequest('GET', '/models', undefined, apiKey);
+      model = result?.data?.find((m: any) => typeof m?.id === 'string')?.id;
+    } catch (e) {
+      logger.warn('Failed to list the models of the compatible server:', e);
+    }
+    if (!model) {
+      if (provider.hasModel) return;
+      throw new Error('Model is not set (openaiAgent.compatible.model) and the server did not list one at /models');
+    }
+    logger.info('Using the model reported by the compatible server:', model);
+    await this.configService.setServerModel(provider.baseUrl, model);
+  }
+
+  /** Stateless Chat Completions request, used for inline completions. */
+  public async createChatCompletion(body: any, signal?: AbortSignal): Promise<any> {
+    const apiKey = await this.requireApiKey();
+    await this.ensureServerModel(apiKey);
+    const model = this.getProvider().resolveModel(body.model || this.configService.getModel());
+    return await this.makeRequest('POST', '/chat/completions', { ...body, model }, apiKey, signal);
+  }
+
+  /**
+   * Sends a message and runs the agent. onCheckpoint receives the run's file checkpoint
+   * (undefined when no file changed) when the run ends, also when it failed or was stopped.
+   */
+  public async chat(userMessage: string, onThinking?: (step: string) => void, onDelta?: (text: string) => void, onCheckpoint?: (checkpoint: CheckpointInfo | undefined) => void): Promise<string> {
+    const threadId = this.threadId;
+    const run: RunLog = { toolCalls: [], cost: 0, inputTokens: 0, outputTokens: 0, checkpoint: this.checkpoints.beginRun(threadId) };
+    const startedAt = Date.now();
+    let reply: string | undefined;
+    this.activeRuns++;
+    try {
+      reply = await this.runChat(userMessage, run, onThinking, onDelta);
+      return reply;
+    } finally {
+      this.activeRuns--;
+      this.diffPreview.endRun(run.checkpoint.id);
+      const checkpoint = this.checkpoints.endRun(run.checkpoint);
+      if (onCheckpoint) onCheckpoint(checkpoint);
+      await this.mirrorExchange(this.threadId || threadId, userMessage, startedAt, run, reply);
+    }
+  }
+
+  /** Mirrors a finished (or failed) exchange into the local conversation store. */
+  private async mirrorExchange(threadId: string | undefined, userMessage: string, startedAt: number, run: RunLog, reply?: string): Promise<void> {
+    if (!threadId) return;
+    const messages: StoredMessage[] = [{ role: 'user', content: userMessage, timestamp: startedAt }];
+    if (reply !== undefined) {
+      const assistant: StoredMessage = { role: 'assistant', content: reply, timestamp: Date.now() };
+      if (run.toolCalls.length) assistant.toolCalls = run.toolCalls;
+      if (run.inputTokens || run.outputTokens) {
+        assistant.cost = { usd: run.cost, inputTokens: run.inputTokens, outputTokens: run.outputTokens, model: run.model };
+      }
+      messages.push(assistant);
+    }
+    try {
+      if (!this.isLocalThread(threadId) && !(await this.conversationStore.load(threadId))) {
+        // First exchange seen for an older server thread: backfill the whole thread from the server instead
+        await this.getThreadHistory(threadId);
+        return;
+      }
+      await this.conversationStore.appendMessages(threadId, messages, this.configService.getThreadName(threadId));
+    } catch (e) {
+      logger.warn('Failed to store conversation locally:', e);
     }
   }
 
-  public async chat(userMessage: string, onThinking?: (step: string) => void): Promise<string> {
-    const apiKey = await this.configService.getApiKey();
-    if (!apiKey || !this.assistantId || !this.threadId) {
+  private async runChat(userMessage: string, run: RunLog, onThinking?: (step: string) => void, onDelta?: (text: string) => void): Promise<string> {
+    const apiKey = await this.requireApiKey();
+    if (!this.threadId) {
       await this.initialize();
-      if (!apiKey || !this.assistantId || !this.threadId) throw new Error('OpenAI Agent not properly initialized');
+    }
+    if (this.threadId && this.isLocalThread(this.threadId)) {
+      try {
+        return await this.chatWithCompletions(apiKey, userMessage, run, onThinking, onDelta);
+      } finally {
+        this.runAbort = undefined;
+      }
+    }
+    if (!this.assistantId || !this.threadId) {
+      await this.initialize();
+      if (!this.assistantId || !this.threadId) throw new Error('OpenAI Agent not properly initialized');
     }
     try {
       await this.makeRequest('POST', `/threads/${this.threadId}/messages`, { role: 'user', content: [{ type: 'text', text: userMessage }] }, apiKey);
-      const runResponse = await this.makeRequest('POST', `/threads/${this.threadId}/runs`, { assistant_id: this.assistantId }, apiKey);
+      if (this.configService.getStreamResponses()) {
+        try {
+          return await this.streamRun(apiKey, run, onThinking, onDelta);
+        } finally {
+          this.currentRunId = undefined;
+          this.runAbort = undefined;
+        }
+      }
+      const runResponse = await this.makeRequest('POST', `/threads/${this.threadId}/runs`, this.getRunOptions(), apiKey);
       const runId = runResponse.id;
       this.currentRunId = runId;
       try {
-        return await this.waitForRunCompletion(apiKey, runId, onThinking);
+        return await this.waitForRunCompletion(apiKey, runId, run, onThinking);
       } finally {
         this.currentRunId = undefined;
+        this.runAbort = undefined;
       }
     } catch (e: any) {
       this.currentRunId = undefined;
+      if (e instanceof RunCancelledError) throw e;
       throw new Error(e?.message || String(e));
     }
   }
 
-  private async waitForRunCompletion(apiKey: string, runId: string, onThinking?: (step: string) => void): Promise<string> {
-    const maxAttempts = 60;
-    const delayMs = 1000;
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const response = await this.makeRequest('GET', `/threads/${this.threadId}/runs/${runId}`, undefined, apiKey);
-        const status = response.status;
-        if (status === 'requires_action') {
-          const toolCalls = response.required_action?.submit_tool_outputs?.tool_calls || [];
-          const outputs: Array<{ tool_call_id: string; output: string }> = [];
-          
-          if (onThinking && toolCalls.length > 0) {
-            onThinking(`AI decided to use tools: ${toolCalls.map((call: any) => call.function?.name).join(', ')}`);
+  /**
+   * Chat Completions engine: the conversation is kept locally and the tool-calling loop
+   * runs here, reusing the assistant's tool definitions and tool dispatch.
+   */
+  private async chatWithCompletions(apiKey: string, userMessage: string, run: RunLog, onThinking?: (step: string) => void, onDelta?: (text: string) => void): Promise<string> {
+    const threadId = this.threadId as string;
+    const controller = new AbortController();
+    this.runAbort = controller;
+    await this.ensureServerModel(apiKey);
+    const provider = this.getProvider();
+    const model = provider.resolveModel(this.configService.getModel());
+    const tools = this.getAssistantTools().filter(t => t.type === 'function');
+    const conversation = await this.loadLocalContext(threadId);
+    conversation.push({ role: 'user', content: userMessage });
+    await this.saveLocalContext(threadId, conversation);
+
+    let finalText = '';
+    for (let step = 0; step < OpenAIService.MAX_TOOL_ITERATIONS; step++) {
+      const body: any = {
+        model,
+        messages: [{ role: 'system', content: `${this.getAssistantInstructions()}\n\n${this.getWorkspaceInstructions()}` }, ...this.fitContext(conversation)],
+        tools,
+        stream: true
+      };
+      if (provider.id !== 'compatible') body.stream_options = { include_usage: true };
+
+      let content = '';
+      const toolCalls: any[] = [];
+      let usage: any;
+      for await (const { data } of this.streamEvents('/chat/completions', body, apiKey, controller.signal)) {
+        if (data.error) throw new Error(data.error.message || 'Stream error');
+        if (data.usage) usage = data.usage;
+        const delta = data.choices?.[0]?.delta;
+        if (!delta) continue;
+        if (delta.content) {
+          content += delta.content;
+          if (onDelta) onDelta(delta.content);
+        }
+        for (const tc of delta.tool_calls || []) {
+          const index = tc.index ?? toolCalls.length;
+          const call = toolCalls[index] || (toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } });
+          if (tc.id) call.id = tc.id;
+          if (tc.function?.name) call.function.name += tc.function.name;
+          if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+        }
+      }
+      if (usage) this.recordUsage({ usage, model }, run);
+
+      const assistantMessage: any = { role: 'assistant', content: content || null };
+      if (toolCalls.length > 0) assistantMessage.tool_calls = toolCalls;
+      if (content) {
+        finalText += (finalText ? '\n\n' : '') + content;
+      }
+
+      if (toolCalls.length === 0) {
+        conversation.push(assistantMessage);
+        await this.saveLocalContext(threadId, conversation);
+        break;
+      }
+
+      const outputs = await this.executeToolCalls(toolCalls, run, onThinking);
+      if (controller.signal.aborted) throw new RunCancelledError();
+      // Only persist complete steps: an assistant tool call must be followed by its outputs
+      conversation.push(assistantMessage);
+      for (const o of outputs) conversation.push({ role: 'tool', tool_call_id: o.tool_call_id, content: o.output });
+      await this.saveLocalContext(threadId, conversation);
+      if (content && onDelta) onDelta('\n\n');
+      if (onThinking) onThinking('Processing tool results...');
+    }
+
+    if (onThinking) onThinking('Generating final response...');
+    return finalText.trim();
+  }
+
+  /** Messages of a local thread, moving them out of globalState where earlier versions kept them. */
+  private async loadLocalContext(threadId: string): Promise<any[]> {
+    const stored = await this.conversationStore.loadContext(threadId);
+    if (stored) return stored;
+    const legacy = this.configService.getLegacyLocalConversation(threadId);
+    if (!legacy) return [];
+    await this.saveLocalContext(threadId, legacy);
+    await this.configService.clearLegacyLocalConversation(threadId);
+    return legacy;
+  }
+
+  /**
+   * Stores the messages of a local thread. Tool outputs of earlier turns are cut to
+   * MAX_STORED_RESULT_CHARS: the model has already answered from them.
+   */
+  private async saveLocalContext(threadId: string, messages: any[]): Promise<void> {
+    const lastUser = messages.map(m => m.role).lastIndexOf('user');
+    messages.forEach((m, i) => {
+      if (i < lastUser && m.role === 'tool' && typeof m.content === 'string' && m.content.length > OpenAIService.MAX_STORED_RESULT_CHARS) {
+        m.content = m.content.slice(0, OpenAIService.MAX_STORED_RESULT_CHARS) + '… [output truncated]';
+      }
+    });
+    await this.conversationStore.saveContext(threadId, messages);
+  }
+
+  /**
+   * Drops the oldest turns until the messages fit MAX_CONTEXT_CHARS (roughly a quarter
+   * as many tokens). Whole turns go, from a user message to the next, so tool calls
+   * are never separated from their outputs; the current turn is always sent.
+   */
+  private fitContext(messages: any[]): any[] {
+    const size = (m: any) => (typeof m.content === 'string' ? m.content.length : 0) + (m.tool_calls ? JSON.stringify(m.tool_calls).length : 0);
+    let total = messages.reduce((sum, m) => sum + size(m), 0);
+    let start = 0;
+    const lastUser = messages.map(m => m.role).lastIndexOf('user');
+    while (total > OpenAIService.MAX_CONTEXT_CHARS && start < lastUser) {
+      let next = start + 1;
+      while (next < lastUser && messages[next].role !== 'user') next++;
+      for (let i = start; i < next; i++) total -= size(messages[i]);
+      start = next;
+    }
+    if (start > 0) logger.debug(`Sending ${messages.length - start} of ${messages.length} messages to fit the context`);
+    return messages.slice(start);
+  }
+
+  /**
+   * Runs the assistant on the current thread using the streaming API. Text deltas are
+   * forwarded as they arrive; tool calls are executed and their outputs submitted on a
+   * new stream until the run reaches a terminal state.
+   */
+  private async streamRun(apiKey: string, run: RunLog, onThinking?: (step: string) => void, onDelta?: (text: string) => void): Promise<string> {
+    const controller = new AbortController();
+    this.runAbort = controller;
+    let endpoint = `/threads/${this.threadId}/runs`;
+    let body: any = { ...this.getRunOptions(), stream: true };
+    let text = '';
+    let lastStatus: string | undefined;
+    let timedOut = false;
+    const runTimer = this.watchRunTime(() => lastStatus, () => {
+      timedOut = true;
+      // Stops reading the stream and cancels the run on the server too
+      this.cancelCurrentRun();
+    });
+
+    try {
+      while (true) {
+        let toolCalls: any[] | null = null;
+        let runId: string | undefined;
+        for await (const { event, data } of this.streamEvents(endpoint, body, apiKey, controller.signal)) {
+          if (event.startsWith('thread.run.') && !event.startsWith('thread.run.step.')) {
+            lastStatus = event.slice('thread.run.'.length);
+            logger.debug(`Run ${data?.id} ${lastStatus}`);
           }
+          if (event === 'thread.run.created' || event === 'thread.run.queued' || event === 'thread.run.in_progress') {
+            this.currentRunId = runId = data.id;
+          } else if (event === 'thread.message.created') {
+            if (text) {
+              text += '\n\n';
+              if (onDelta) onDelta('\n\n');
+            }
+          } else if (event === 'thread.message.delta') {
+            for (const part of data.delta?.content || []) {
+              if (part.type === 'text' && part.text?.value) {
+                text += part.text.value;
+                if (onDelta) onDelta(part.text.value);
+              }
+            }
+          } else if (event === 'thread.run.step.created' && data.step_details?.type === 'tool_calls') {
+            if (onThinking) onThinking('AI is deciding what tools to use...');
+          } else if (event === 'thread.run.requires_action') {
+            runId = data.id;
+            toolCalls = data.required_action?.submit_tool_outputs?.tool_calls || [];
+          } else if (event === 'thread.run.completed') {
+            this.recordUsage(data, run);
+          } else if (event === 'thread.run.failed' || event === 'thread.run.cancelled' || event === 'thread.run.expired' || event === 'thread.run.incomplete') {
+            const status = event.slice('thread.run.'.length);
+            throw new Error(`Run ${status}: ${data.last_error?.message || data.incomplete_details?.reason || 'Unknown error'}`);
+          } else if (event === 'error') {
+            throw new Error(data?.message || data?.error?.message || 'Stream error');
+          }
+        }
+        if (!toolCalls) break;
+
+        const outputs = await this.executeToolCalls(toolCalls, run, onThinking);
+        if (controller.signal.aborted) throw new RunCancelledError();
+        if (onThinking) onThinking('Processing tool results...');
+        endpoint = `/threads/${this.threadId}/runs/${runId}/submit_tool_outputs`;
+        body = { tool_outputs: outputs, stream: true };
+      }
+    } catch (e) {
+      if (timedOut && e instanceof RunCancelledError) throw runTimer.error();
+      throw e;
+    } finally {
+      runTimer.stop();
+    }
+
+    if (onThinking) onThinking('Generating final response...');
+    return text.trim();
+  }
+
+  private async *streamEvents(endpoint: string, data: any, apiKey: string, signal: AbortSignal): AsyncGenerator<{ event: string; data: any }> {
+    let response: Response;
+    const startedAt = Date.now();
+    try {
+      const provider = this.getProvider();
+      logger.trace(`POST ${provider.buildUrl(endpoint)} (stream)`, data);
+      response = await this.fetchWithRetry('POST', endpoint, provider.buildUrl(endpoint), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...provider.headers(apiKey) },
+        body: JSON.stringify(data),
+        signal
+      });
+    } catch (e: any) {
+      if (signal.aborted) throw new RunCancelledError();
+      throw e;
+    }
+    const meta = this.describeResponse(response, Date.now() - startedAt);
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({})) as any;
+      logger.error(`POST ${endpoint} (stream) → ${meta}:`, errorData.error?.message || response.statusText);
+      throw new HttpError(response.status, errorData.error?.message || response.statusText, errorData.error?.code);
+    }
+
+    logger.debug(`POST ${endpoint} (stream) → ${meta}`);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          finished = true;
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        let idx;
+        while ((idx = buffer.indexOf('\n\n')) >= 0) {
+          const chunk = buffer.slice(0, idx);
+          buffer = buffer.slice(idx + 2);
+          let event = 'message';
+          const dataLines: string[] = [];
+          for (const line of chunk.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+          }
+          const payload = dataLines.join('\n');
+          if (!payload || payload === '[DONE]') continue;
+          try {
+            yield { event, data: JSON.parse(payload) };
+          } catch (e) {
+            if (e instanceof SyntaxError) continue; // ignore malformed events
+            throw e;
+          }
+        }
+      }
+    } catch (e: any) {
+      if (signal.aborted) throw new RunCancelledError();
+      throw e;
+    } finally {
+      // Left early (failed run, error event, consumer stopped): close the connection instead of leaving it open
+      if (!finished) await reader.cancel().catch(() => {});
+      reader.releaseLock();
+    }
+  }
+
+  private async waitForRunCompletion(apiKey: string, runId: string, run: RunLog, onThinking?: (step: string) => void): Promise<string> {
+    // Stop and Cancel Run wake the poll wait right away instead of after up to MAX_POLL_INTERVAL_MS
+    const controller = new AbortController();
+    this.runAbort = controller;
+    let timedOut = false;
+    let interval = OpenAIService.MIN_POLL_INTERVAL_MS;
+    let lastStatus: string | undefined;
+    let submitted: { callIds: string; outputs: Array<{ tool_call_id: string; output: string }> } | undefined;
+    // Keep polling while the notification is up; the run may still finish in the meantime
+    const runTimer = this.watchRunTime(() => lastStatus, () => {
+      timedOut = true;
+      controller.abort();
+    });
+    try {
+      while (true) {
+        // Stopped from the chat view: cancelCurrentRun already cancelled the run on the server
+        if (this.currentRunId !== runId) throw new RunCancelledError();
+
+        if (timedOut) {
+          // Cancel on the server too so the abandoned run stops consuming tokens
+          await this.cancelCurrentRun();
+          throw runTimer.error();
+        }
+
+        try {
+          const response = await this.makeRequest('GET', `/threads/${this.threadId}/runs/${runId}`, undefined, apiKey);
+          const status = response.status;
+          // Poll quickly right after something happened and slow down while the run is busy
+          interval = status === lastStatus
+            ? Math.min(OpenAIService.MAX_POLL_INTERVAL_MS, Math.round(interval * 1.5))
+            : OpenAIService.MIN_POLL_INTERVAL_MS;
+          lastStatus = status;
+          if (status === 'requires_action') {
+            const toolCalls = response.required_action?.submit_tool_outputs?.tool_calls || [];
+            const callIds = toolCalls.map((call: any) => call.id).join(',');
+            // After a failed submit the run still waits for the same calls: resend their outputs instead of running the tools again
+            const outputs = submitted && submitted.callIds === callIds ? submitted.outputs : await this.executeToolCalls(toolCalls, run, onThinking);
+            submitted = { callIds, outputs };
           
-          for (const call of toolCalls) {
-            const name = call.function?.name;
-            const args = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
-            
             if (onThinking) {
-              let toolDescription = `Executing ${name}`;
-              if (name === 'read_file' && args.path) {
-                toolDescription += ` - reading file: ${args.path}`;
-              } else if (name === 'search_workspace' && args.query) {
-                toolDescription += ` - searching for: "${args.query}"`;
-              } else if (name === 'upsert_file' && args.path) {
-                toolDescription += ` - writing to file: ${args.path}`;
-              }
-              onThinking(toolDescription);
+              onThinking('Processing tool results...');
             }
-            
+          
             try {
-              let result: any = null;
-              if (name === 'read_file' && this.mcp) result = await this.mcp.readFile(args.path, args.maxBytes);
-              else if (name === 'search_workspace' && this.mcp) result = await this.mcp.searchWorkspace(args);
-              else if (name === 'upsert_file' && this.mcp) result = await this.mcp.request('upsert_file', args);
-              else if (name === 'append_file' && this.mcp) result = await this.mcp.request('append_file', args);
-              else if (name === 'make_dir' && this.mcp) result = await this.mcp.request('make_dir', args);
-              else if (name === 'delete_file' && this.mcp) result = await this.mcp.request('delete_file', args);
-              else result = { error: `Unknown tool: ${name}` };
-              outputs.push({ tool_call_id: call.id, output: JSON.stringify(result).slice(0, 50000) });
+              await this.makeRequest('POST', `/threads/${this.threadId}/runs/${runId}/submit_tool_outputs`, { tool_outputs: outputs }, apiKey);
             } catch (e: any) {
-              outputs.push({ tool_call_id: call.id, output: JSON.stringify({ error: e?.message || String(e) }) });
+              // The outputs may or may not have arrived; the next poll tells which
+              if (!this.retryPolicy.isTransient(e)) throw e;
+              logger.warn(`Submitting tool outputs for run ${runId} failed, checking the run again:`, e?.message || String(e));
+              if (onThinking) onThinking('Submitting tool results failed, retrying...');
+            }
+          } else if (status === 'completed') {
+            if (onThinking) {
+              onThinking('Generating final response...');
             }
-          }
-          
-          if (onThinking) {
-            onThinking('Processing tool results...');
-          }
           
-          await this.makeRequest('POST', `/threads/${this.threadId}/runs/${runId}/submit_tool_outputs`, { tool_outputs: outputs }, apiKey);
-        } else if (status === 'completed') {
-          if (onThinking) {
-            onThinking('Generating final response...');
-          }
+            this.recordUsage(response, run);
           
-          // Get usage information and calculate cost
-          const usage = response.usage;
-          if (usage) {
-            // Get the actual model used from the response, fallback to config if not available
-            const model = response.model || this.configService.getModel();
-            const cost = this.calculateCost(model, usage.prompt_tokens || 0, usage.completion_tokens || 0);
-            this.sessionCost += cost;
-            
-            console.log('Cost calculation:', {
-              model: model,
-              inputTokens: usage.prompt_tokens || 0,
-              outputTokens: usage.completion_tokens || 0,
-              cost: cost,
-              totalCost: this.sessionCost,
-              responseModel: response.model,
-              configModel: this.configService.getModel()
-            });
+            return await this.getLastAssistantMessage(apiKey);
+          } else if (status === 'failed' || status === 'cancelled' || status === 'expired' || status === 'incomplete') {
+            throw new Error(`Run ${status}: ${response.last_error?.message || response.incomplete_details?.reason || 'Unknown error'}`);
+          } else if (status === 'in_progress' || status === 'queued') {
+            if (onThinking) {
+              // Get more detailed status information
+              const runDetails = response;
+              let thinkingText = `Processing... (${status})`;
             
-            // Send cost information to the UI
-            if (this._view) {
-              this._view.webview.postMessage({ 
-                type: 'costUpdate', 
-                cost: cost,
-                totalCost: this.sessionCost,
-                tokens: {
-                  input: usage.prompt_tokens || 0,
-                  output: usage.completion_tokens || 0,
-                  total: usage.total_tokens || 0
-                },
-                model: model
-              });
-            }
-          }
-          
-          return await this.getLastAssistantMessage(apiKey);
-        } else if (status === 'failed' || status === 'cancelled' || status === 'expired') {
-          throw new Error(`Run ${status}: ${response.last_error?.message || 'Unknown error'}`);
-        } else if (status === 'in_progress' || status === 'queued') {
-          if (onThinking) {
-            // Get more detailed status information
-            const runDetails = response;
-            let thinkingText = `Processing... (${status})`;
+              if (runDetails.required_action) {
+                thinkingText = `AI is deciding what tools to use...`;
+              } else if (runDetails.last_error) {
+                thinkingText = `Error occurred: ${runDetails.last_error.message}`;
+              } else if (runDetails.started_at && !runDetails.completed_at) {
+                const elapsed = Math.floor((Date.now() - new Date(runDetails.started_at).getTime()) / 1000);
+                thinkingText = `AI is thinking... (${elapsed}s elapsed)`;
+              }
             
-            if (runDetails.required_action) {
-              thinkingText = `AI is deciding what tools to use...`;
-            } else if (runDetails.last_error) {
-              thinkingText = `Error occurred: ${runDetails.last_error.message}`;
-            } else if (runDetails.started_at && !runDetails.completed_at) {
-              const elapsed = Math.floor((Date.now() - new Date(runDetails.started_at).getTime()) / 1000);
-              thinkingText = `AI is thinking... (${elapsed}s elapsed)`;
+              onThinking(thinkingText);
             }
-            
-            onThinking(thinkingText);
-          }
           
-          // Try to get intermediate messages to show thinking process
-          if (onThinking && status === 'in_progress') {
-            try {
-              const messagesResponse = await this.makeRequest('GET', `/threads/${this.threadId}/messages?limit=5&order=desc`, undefined, apiKey);
+            // Try to get intermediate messages to show thinking process
+            if (onThinking && status === 'in_progress') {
+              try {
+                const messagesResponse = await this.makeRequest('GET', `/threads/${this.threadId}/messages?limit=5&order=desc`, undefined, apiKey);
               
-              if (messagesResponse.data && messagesResponse.data.length > 0) {
-                const lastMessage = messagesResponse.data[0];
-                if (lastMessage.role === 'assistant' && lastMessage.content) {
-                  let thinkingText = '';
-                  for (const contentItem of lastMessage.content) {
-                    if (contentItem.type === 'text') {
-                      thinkingText += contentItem.text.value;
+                if (messagesResponse.data && messagesResponse.data.length > 0) {
+                  const lastMessage = messagesResponse.data[0];
+                  if (lastMessage.role === 'assistant' && lastMessage.content) {
+                    let thinkingText = '';
+                    for (const contentItem of lastMessage.content) {
+                      if (contentItem.type === 'text') {
+                        thinkingText += contentItem.text.value;
+                      }
+                    }
+                    if (thinkingText.trim() && thinkingText.length > 10) {
+                      onThinking(`AI reasoning: ${thinkingText.substring(0, 200)}${thinkingText.length > 200 ? '...' : ''}`);
                     }
-                  }
-                  if (thinkingText.trim() && thinkingText.length > 10) {
-                    onThinking(`AI reasoning: ${thinkingText.substring(0, 200)}${thinkingText.length > 200 ? '...' : ''}`);
                   }
                 }
+              } catch (e) {
+                // Ignore errors when trying to get intermediate messages
               }
-            } catch (e) {
-              // Ignore errors when trying to get intermediate messages
             }
           }
+        } catch (error: any) {
+          logger.error('Error checking run status:', error.message);
+          throw new Error(`Error checking completion status: ${error.message}`);
         }
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-      } catch (error: any) {
-        console.error('Error checking run status:', error.message);
-        throw new Error(`Error checking completion status: ${error.message}`);
+        try {
+          await this.sleep(interval, controller.signal);
+        } catch (e) {
+          // Cancel Run: the next iteration cancels the run on the server
+          if (!timedOut) throw e;
+        }
+      }
+    } finally {
+      runTimer.stop();
+    }
+  }
+
+  /**
+   * Once a run has taken openaiAgent.run.timeoutSeconds, shows a notification that can
+   * cancel it, and shows it again after every further period; hiding it keeps waiting.
+   * onCancel is called when the user cancels. stop() closes the notification.
+   */
+  private watchRunTime(status: () => string | undefined, onCancel: () => void): { stop(): void; error(): Error } {
+    const timeoutMs = Math.max(10, this.configService.getRunTimeoutSeconds()) * 1000;
+    const startedAt = Date.now();
+    let stopped = false;
+    let closePrompt: (() => void) | undefined;
+    const ask = () => {
+      closePrompt?.();
+      const minutes = Math.round((Date.now() - startedAt) / 60000);
+      vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `The agent run has been going for ${minutes < 1 ? 'less than a minute' : minutes === 1 ? '1 minute' : `${minutes} minutes`} and is still ${status() || 'running'}.`,
+        cancellable: true
+      }, (progress, token) => new Promise<void>(resolve => {
+        progress.report({ message: 'Cancel stops it on the server too; hide this notification to keep waiting.' });
+        closePrompt = resolve;
+        token.onCancellationRequested(() => {
+          resolve();
+          if (stopped) return;
+          logger.warn(`Run ${this.currentRunId ?? '(not started)'} cancelled by the user after ${Math.round((Date.now() - startedAt) / 1000)}s`);
+          onCancel();
+        });
+      }));
+    };
+    const timer = setInterval(ask, timeoutMs);
+    return {
+      stop: () => {
+        stopped = true;
+        clearInterval(timer);
+        closePrompt?.();
+      },
+      error: () => new Error(`Run cancelled after exceeding the time limit of ${Math.round(timeoutMs / 1000)}s`)
+    };
+  }
+
+  private async executeToolCalls(toolCalls: any[], run: RunLog, onThinking?: (step: string) => void): Promise<Array<{ tool_call_id: string; output: string }>> {
+    const outputs: Array<{ tool_call_id: string; output: string }> = [];
+    
+    if (onThinking && toolCalls.length > 0) {
+      onThinking(`AI decided to use tools: ${toolCalls.map((call: any) => call.function?.name).join(', ')}`);
+    }
+    
+    for (const call of toolCalls) {
+      const name = call.function?.name;
+      let args: any;
+      try {
+        args = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch (e: any) {
+        // Streamed arguments (especially from compatible servers) can be cut off or malformed;
+        // the model gets the error and can retry the call instead of the whole run failing
+        const error = `Invalid JSON in the arguments of ${name}: ${e?.message || e}`;
+        const record: StoredToolCall = { id: call.id, name, arguments: call.function.arguments, error, durationMs: 0 };
+        logger.warn(`Tool ${name} not called:`, error);
+        outputs.push({ tool_call_id: call.id, output: JSON.stringify({ error }) });
+        run.toolCalls.push(record);
+        this.postToolCall(record, 'done');
+        continue;
+      }
+      
+      if (onThinking) {
+        let toolDescription = `Executing ${name}`;
+        if (name === 'read_file' && args.path) {
+          toolDescription += ` - reading file: ${args.path}`;
+        } else if (name === 'run_command' && args.command) {
+          toolDescription += ` - running: ${args.command}`;
+        } else if (name === 'list_directory') {
+          toolDescription += ` - listing: ${args.path || '.'}`;
+        } else if (name === 'search_workspace' && args.query) {
+          toolDescription += ` - searching for${args.regex ? ' /' + args.query + '/' : ` "${args.query}"`}`;
+        } else if (name === 'upsert_file' && args.path) {
+          toolDescription += ` - writing to file: ${args.path}`;
+        } else if ((name === 'apply_patch' || name === 'replace_range' || name === 'search_replace') && (args.path || args.patch)) {
+          toolDescription += ` - editing file: ${args.path || 'from patch'}`;
+        }
+        onThinking(toolDescription);
+      }
+      
+      const startedAt = Date.now();
+      const record: StoredToolCall = { id: call.id, name, arguments: args };
+      this.postToolCall(record, 'running');
+      try {
+        const result = await this.executeToolCall(name, args, { checkpoint: run.checkpoint });
+        const output = JSON.stringify(result).slice(0, 50000);
+        outputs.push({ tool_call_id: call.id, output });
+        record.result = output.length > OpenAIService.MAX_STORED_RESULT_CHARS ? output.slice(0, OpenAIService.MAX_STORED_RESULT_CHARS) + '…' : output;
+        if (result && typeof result === 'object' && result.error) record.error = String(result.error);
+      } catch (e: any) {
+        // Structured MCP errors keep their code so the model can tell e.g. a sandbox violation from a missing file
+        const error = e instanceof McpToolError ? { error: e.message, code: e.code, ...e.data } : { error: e?.message || String(e) };
+        outputs.push({ tool_call_id: call.id, output: JSON.stringify(error) });
+        record.error = e?.message || String(e);
+      }
+      record.durationMs = Date.now() - startedAt;
+      if (record.error) logger.warn(`Tool ${name} failed after ${record.durationMs} ms:`, record.error);
+      else logger.debug(`Tool ${name} done in ${record.durationMs} ms`, args);
+      run.toolCalls.push(record);
+      this.postToolCall(record, 'done');
+    }
+    return outputs;
+  }
+
+  /** Shows a tool call as a card in the chat view; the card is updated once the call finishes. */
+  private postToolCall(record: StoredToolCall, status: 'running' | 'done'): void {
+    this._view?.webview.postMessage({ type: 'toolCall', call: { ...record, status } });
+  }
+
+  private recordUsage(response: any, run: RunLog): void {
+    // Get usage information and calculate cost
+    const usage = response.usage;
+    if (usage) {
+      // Get the actual model used from the response, fallback to config if not available
+      const model = response.model || this.configService.getModel();
+      const cost = this.calculateCost(model, usage.prompt_tokens || 0, usage.completion_tokens || 0);
+      this.sessionCost += cost;
+      run.cost += cost;
+      run.inputTokens += usage.prompt_tokens || 0;
+      run.outputTokens += usage.completion_tokens || 0;
+      run.model = model;
+      
+      logger.debug('Cost calculation:', {
+        model: model,
+        inputTokens: usage.prompt_tokens || 0,
+        outputTokens: usage.completion_tokens || 0,
+        cost: cost,
+        totalCost: this.sessionCost,
+        responseModel: response.model,
+        configModel: this.configService.getModel()
+      });
+      
+      // Send cost information to the UI
+      if (this._view) {
+        this._view.webview.postMessage({ 
+          type: 'costUpdate', 
+          cost: cost,
+          totalCost: this.sessionCost,
+          tokens: {
+            input: usage.prompt_tokens || 0,
+            output: usage.completion_tokens || 0,
+            total: usage.total_tokens || 0
+          },
+          model: model
+        });
       }
     }
-    throw new Error('Timed out waiting for completion');
+  }
+
+  private async executeToolCall(name: string, args: any, context: ToolCallContext): Promise<any> {
+    return await this.tools.call(name, args, context);
+  }
+
+  private requireMcp(): McpClient {
+    if (!this.mcp) throw new Error('MCP server is not running');
+    return this.mcp;
+  }
+
+  /**
+   * Runs a write tool that the MCP server applies directly (no diff review): checks the
+   * write policy and snapshots the target for the run checkpoint first. The path is
+   * resolved up front so the whitelist, the confirmation and the write all see the same file.
+   */
+  private async guardedWrite(name: string, args: any, context: ToolCallContext): Promise<any> {
+    const mcp = this.requireMcp();
+    const { path: target } = await mcp.request('resolve_path', { path: args.path, folder: args.folder });
+    const decision = await this.writeGuard.check(name, target);
+    if (!decision.allowed) return { error: decision.reason, denied: true, message: 'The user denied this operation. Do not retry it; ask the user how to proceed instead.' };
+    await this.checkpoints.snapshot(context.checkpoint, vscode.Uri.file(target), name === 'make_dir' ? 'directory' : 'file');
+    return await mcp.request(name, { ...args, path: target });
+  }
+
+  /**
+   * Registers the built-in tools backed by the stdio MCP server. Editor tools run in
+   * process (see EditorTools) and external MCP servers are plugged in as a source.
+   */
+  private registerTools(): void {
+    const t = this.tools;
+    // The server only computes the edited content; it is applied through the same diff review as upsert_file
+    const reviewedEdit = (name: string) => async (args: any, context: ToolCallContext) => {
+      const mcp = this.requireMcp();
+      let { content, status, ...summary } = await mcp.request(name, { ...args, dryRun: true });
+      // The server edits the file on disk; an open editor with unsaved changes has to be the base instead,
+      // or applying the whole content would silently drop those changes
+      const uri = vscode.Uri.file(summary.path);
+      const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+      const base = open?.isDirty ? open.getText() : undefined;
+      if (base !== undefined) {
+        ({ content, status, ...summary } = await mcp.request(name, { ...args, path: summary.path, dryRun: true, original: base }));
+      }
+      // Snapshotted only once accepted, so a rejected edit doesn't end up in the run checkpoint
+      const result = await this.diffPreview.proposeFileContent(summary.path, content, {
+        requireConfirmation: this.writeGuard.needsConfirmation(summary.path),
+        base,
+        runId: context.checkpoint?.id,
+        beforeApply: () => this.checkpoints.snapshot(context.checkpoint, uri)
+      });
+      return { ...summary, ...result };
+    };
+    t.register({ name: 'read_file', description: 'Read a file from the workspace', parameters: { type: 'object', properties: { path: { type: 'string' }, maxBytes: { type: 'number' } }, required: ['path'] } }, args => this.requireMcp().readFile(args.path, args.maxBytes, args.folder));
+    t.register({ name: 'search_workspace', description: 'Search file contents in the workspace. Returns matching lines with line numbers (and optional context) per file, so call sites can be found without reading whole files. Without a query it lists the matching files', parameters: { type: 'object', properties: { root: { type: 'string' }, includeGlobs: { type: 'array', items: { type: 'string' } }, excludeGlobs: { type: 'array', items: { type: 'string' } }, query: { type: 'string', description: 'Text to find, or a JavaScript regular expression when regex is true' }, regex: { type: 'boolean' }, ignoreCase: { type: 'boolean' }, contextLines: { type: 'number', description: 'Lines of context before and after each match (max 10)' }, maxMatches: { type: 'number', description: 'Maximum matching lines in total (default 200)' }, maxMatchesPerFile: { type: 'number', description: 'Default 20' }, maxFileBytes: { type: 'number' } } } }, args => this.requireMcp().searchWorkspace(args));
+    t.register({ name: 'list_directory', description: 'List the entries of a workspace directory with type, size and modification time. Honours .gitignore and skips hidden entries by default. Use this to explore the project structure before reading files', parameters: { type: 'object', properties: { path: { type: 'string', description: 'Directory relative to the workspace root (default ".")' }, depth: { type: 'number', description: 'Levels to descend, 1-5 (default 1)' }, includeHidden: { type: 'boolean' }, respectGitignore: { type: 'boolean', description: 'Default true' }, maxEntries: { type: 'number', description: 'Default 500' } } } }, args => this.requireMcp().listDirectory(args));
+    t.register({ name: 'file_stat', description: 'Get type, size and timestamps of a file or directory, or exists: false when it does not exist', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } }, args => this.requireMcp().fileStat(args.path, args.folder));
+    t.register({ name: 'upsert_file', description: 'Create or overwrite a file with given content', parameters: { type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path','content'] } }, async (args, context) => {
+      // The server enforces the workspace sandbox; the diff review doubles as the write confirmation
+      const { path: target } = await this.requireMcp().request('resolve_path', { path: args.path, folder: args.folder });
+      return await this.diffPreview.proposeFileContent(target, args.content ?? '', {
+        requireConfirmation: this.writeGuard.needsConfirmation(target),
+        runId: context.checkpoint?.id,
+        beforeApply: () => this.checkpoints.snapshot(context.checkpoint, vscode.Uri.file(target))
+      });
+    });
+    t.register({ name: 'append_file', description: 'Append content to a file (creates if missing)', parameters: { type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path','content'] } }, (args, context) => this.guardedWrite('append_file', args, context));
+    t.register({ name: 'apply_patch', description: 'Apply a unified diff to one file. Prefer this over upsert_file for changes to existing files. Hunk line numbers may be approximate, but context and removed lines must match the file exactly', parameters: { type: 'object', properties: { path: { type: 'string', description: 'File to patch; defaults to the path in the +++ header' }, patch: { type: 'string', description: 'Unified diff with @@ hunk headers' } }, required: ['patch'] } }, reviewedEdit('apply_patch'));
+    t.register({ name: 'replace_range', description: 'Replace lines startLine..endLine (1-based, inclusive) of a file with new content. Use endLine = startLine - 1 to insert before startLine', parameters: { type: 'object', properties: { path: { type: 'string' }, startLine: { type: 'number' }, endLine: { type: 'number' }, content: { type: 'string' } }, required: ['path', 'startLine', 'endLine', 'content'] } }, reviewedEdit('replace_range'));
+    t.register({ name: 'search_replace', description: 'Replace an exact snippet of a file. The search text must be unique in the file unless "all" is true', parameters: { type: 'object', properties: { path: { type: 'string' }, search: { type: 'string' }, replace: { type: 'string' }, all: { type: 'boolean' } }, required: ['path', 'search', 'replace'] } }, reviewedEdit('search_replace'));
+    t.register({ name: 'run_command', description: 'Run a shell command (e.g. tests, type-check, linter) in the workspace after the user approves it. Returns the exit code and the captured stdout/stderr. Prefer non-interactive commands that terminate on their own', parameters: { type: 'object', properties: { command: { type: 'string' }, cwd: { type: 'string', description: 'Working directory relative to the workspace root (default ".")' }, timeoutSeconds: { type: 'number' } }, required: ['command'] } }, async args => {
+      if (!args.command || typeof args.command !== 'string') return { error: 'run_command requires "command"' };
+      // The working directory goes through the same sandbox as the file tools
+      const { path: cwd } = await this.requireMcp().request('resolve_path', { path: args.cwd || '.', folder: args.folder });
+      if (!(await this.commandRunner.confirm(args.command, cwd))) {
+        return { error: `User declined to run: ${args.command}`, denied: true, message: 'The user declined this command. Do not retry it; ask the user how to proceed instead.' };
+      }
+      return await this.commandRunner.run(args.command, cwd, args.timeoutSeconds);
+    });
+    t.register({ name: 'make_dir', description: 'Create a directory (recursive)', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } }, (args, context) => this.guardedWrite('make_dir', args, context));
+    t.register({ name: 'delete_file', description: 'Delete a file', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } }, (args, context) => this.guardedWrite('delete_file', args, context));
+
+    const sandbox = new WorkspaceSandbox(this.configService);
+    new EditorTools(sandbox, this.diagnostics).register(t);
+    new CodeNavigationTools(sandbox).register(t);
+
+    // Tools exposed by external MCP servers are named mcp__<serverId>__<tool>
+    t.addSource({
+      list: () => this.mcpManager ? this.mcpManager.listAssistantTools().map(tool => tool.function) : [],
+      has: name => !!this.mcpManager?.has(name),
+      call: (name, args) => this.mcpManager!.call(name, args)
+    });
   }
 
   private async getLastAssistantMessage(apiKey: string): Promise<string> {
@@ -419,7 +1234,7 @@ export class OpenAIService {
       }
       return '';
     } catch (error: any) {
-      console.error('Error retrieving messages:', error.message);
+      logger.error('Error retrieving messages:', error.message);
       throw new Error(`Error retrieving completion: ${error.message}`);
     }
   }
@@ -435,9 +1250,17 @@ export class OpenAIService {
     };
   }
 
-  public async getThreadHistory(threadId: string): Promise<Array<{role: string, content: string}>> {
-    const apiKey = await this.configService.getApiKey();
-    if (!apiKey) throw new Error('OpenAI API key is not set');
+  public async getThreadHistory(threadId: string): Promise<Array<{role: string, content: string, toolCalls?: StoredToolCall[]}>> {
+    const stored = await this.conversationStore.load(threadId);
+    if (stored && stored.messages.length > 0) {
+      return stored.messages.map(m => ({ role: m.role, content: m.content, ...(m.toolCalls?.length ? { toolCalls: m.toolCalls } : {}) }));
+    }
+    if (this.isLocalThread(threadId)) {
+      return (await this.loadLocalContext(threadId))
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string' && m.content.trim())
+        .map(m => ({ role: m.role, content: m.content.trim() }));
+    }
+    const apiKey = await this.requireApiKey();
 
     try {
       const response = await this.makeRequest('GET', `/threads/${threadId}/messages?limit=100&order=asc`, undefined, apiKey);
@@ -464,12 +1287,23 @@ export class OpenAIService {
           }
         }
         
+        // Backfill the local store for threads created before it existed
+        try {
+          await this.conversationStore.appendMessages(threadId, messages.map(m => ({
+            role: m.role as 'user' | 'assistant',
+            content: m.content,
+            timestamp: Date.now()
+          })), this.configService.getThreadName(threadId));
+        } catch (e) {
+          logger.warn('Failed to store conversation locally:', e);
+        }
+        
         return messages;
       }
       
       return [];
     } catch (error: any) {
-      console.error('Error retrieving thread history:', error.message);
+      logger.error('Error retrieving thread history:', error.message);
       throw new Error(`Failed to retrieve thread history: ${error.message}`);
     }
   }
@@ -479,15 +1313,17 @@ export class OpenAIService {
   }
 
   public async cancelCurrentRun(): Promise<void> {
+    // Stop reading the stream right away; the server-side cancel below may take a moment
+    this.runAbort?.abort();
+    this.commandRunner.cancelAll();
+    this.runAbort = undefined;
     if (this.currentRunId && this.threadId) {
       try {
-        const apiKey = await this.configService.getApiKey();
-        if (apiKey) {
-          await this.makeRequest('POST', `/threads/${this.threadId}/runs/${this.currentRunId}/cancel`, {}, apiKey);
-          console.log(`Cancelled run ${this.currentRunId}`);
-        }
+        const apiKey = await this.requireApiKey();
+        await this.makeRequest('POST', `/threads/${this.threadId}/runs/${this.currentRunId}/cancel`, {}, apiKey);
+        logger.info(`Cancelled run ${this.currentRunId}`);
       } catch (error: any) {
-        console.warn('Failed to cancel run:', error?.message || error);
+        logger.warn('Failed to cancel run:', error?.message || error);
       } finally {
         this.currentRunId = undefined;
       }
@@ -502,12 +1338,31 @@ export class OpenAIService {
 
   public async setThreadName(threadId: string, name: string): Promise<void> {
     await this.configService.setThreadName(threadId, name);
+    await this.conversationStore.setName(threadId, name);
+  }
+
+  public getConversationStore(): ConversationStore {
+    return this.conversationStore;
+  }
+
+  /**
+   * Imports a previously exported thread as a new local thread. Its messages become
+   * the context of the Chat Completions engine, so the conversation can continue.
+   */
+  public async importConversation(data: Omit<StoredConversation, 'id'>): Promise<string> {
+    const id = this.newLocalThreadId();
+    await this.conversationStore.save({ ...data, id });
+    await this.conversationStore.saveContext(id, data.messages.map(m => ({ role: m.role, content: m.content })));
+    const list = this.configService.getThreads();
+    if (!list.includes(id)) { list.push(id); await this.configService.setThreads(list); }
+    if (data.name) await this.configService.setThreadName(id, data.name);
+    await this.setActiveThread(id);
+    return id;
   }
 
   public async newThread(): Promise<string> {
-    const apiKey = await this.configService.getApiKey();
-    if (!apiKey) throw new Error('OpenAI API key is not set');
-    const id = await this.createThread(apiKey);
+    const apiKey = await this.requireApiKey();
+    const id = await this.createConversation(apiKey);
     const list = this.configService.getThreads();
     if (!list.includes(id)) { list.push(id); await this.configService.setThreads(list); }
     await this.setActiveThread(id);
@@ -525,32 +1380,39 @@ export class OpenAIService {
   }
 
   public async resetThread(): Promise<void> {
-    const apiKey = await this.configService.getApiKey();
-    if (!apiKey) throw new Error('OpenAI API key is not set');
+    const apiKey = await this.requireApiKey();
     try {
-      this.threadId = await this.createThread(apiKey);
+      this.threadId = await this.createConversation(apiKey);
       const list = this.configService.getThreads();
       if (!list.includes(this.threadId)) { list.push(this.threadId); await this.configService.setThreads(list); }
       await this.configService.setActiveThreadId(this.threadId);
       await this.configService.setThreadId(this.threadId);
     } catch (error: any) {
-      console.error('Error resetting thread:', error.message);
+      logger.error('Error resetting thread:', error.message);
       throw new Error(`Failed to reset thread: ${error.message}`);
     }
   }
 
   public async updateAssistantModel(): Promise<void> {
-    const apiKey = await this.configService.getApiKey();
-    if (!apiKey) throw new Error('OpenAI API key is not set');
+    const apiKey = await this.requireApiKey();
     
     const newModel = this.configService.getModel();
-    console.log('updateAssistantModel called - newModel:', newModel);
+    logger.debug('updateAssistantModel called - newModel:', newModel);
+    if (!this.getProvider().supportsAssistants) return;
     
     // Always create a new assistant when model changes
     // This ensures the new model is used
-    console.log('Creating new assistant with model:', newModel);
+    logger.info('Creating new assistant with model:', newModel);
     await this.configService.setAssistantId('');
     this.assistantId = await this.getOrCreateAssistant(apiKey);
-    console.log('New assistant created with model:', newModel, 'ID:', this.assistantId);
+    logger.info('New assistant created with model:', newModel, 'ID:', this.assistantId);
+  }
+
+  public dispose(): void {
+    this.commandRunner.dispose();
+    this.mcp?.dispose();
+    this.mcp = null;
+    this.mcpManager?.dispose();
+    this.mcpManager = null;
   }
 }
@@ -0,0 +1,120 @@
+import { ConfigurationService } from './configurationService';
+
+/** Error response of the provider's REST API. */
+export class HttpError extends Error {
+  public status: number;
+  public code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(`HTTP ${status}: ${message}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const BASE_DELAY_MS = 1000;
+
+/** Statuses that are worth retrying; everything else (400, 401, 404, …) fails the same way again. */
+const TRANSIENT_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504]);
+
+/**
+ * Decides whether and when a failed request to the provider is repeated. Requests
+ * without side effects (reads, cancels, chat completions) are retried on every
+ * transient failure. Requests that create something (messages, runs, tool outputs)
+ * are only retried on 429, which the API returns before doing any work, so a retry
+ * can never e.g. post the same message twice.
+ */
+export class RetryPolicy {
+  private configService: ConfigurationService;
+
+  constructor(configService: ConfigurationService) {
+    this.configService = configService;
+  }
+
+  public get maxRetries(): number {
+    return Math.max(0, this.configService.getRetryMaxRetries());
+  }
+
+  public isIdempotent(method: string, endpoint: string): boolean {
+    if (method === 'GET' || method === 'DELETE') return true;
+    const path = endpoint.split('?')[0];
+    return path.endsWith('/cancel') || path === '/chat/completions';
+  }
+
+  /** Whether a response status (or a network failure, status undefined) should be retried. */
+  public shouldRetry(method: string, endpoint: string, status: number | undefined, errorCode?: string): boolean {
+    // An exhausted quota or billing limit doesn't recover by waiting
+    if (errorCode === 'insufficient_quota' || errorCode === 'billing_hard_limit_reached') return false;
+    if (status === 429) return true;
+    if (!this.isIdempotent(method, endpoint)) return false;
+    return status === undefined || TRANSIENT_STATUSES.has(status);
+  }
+
+  /** Whether a thrown request error may succeed when tried again (network failures, 429, 5xx). */
+  public isTransient(error: any): boolean {
+    // 409 means a conflicting state (e.g. the run moved on), not a hiccup
+    if (error instanceof HttpError) return error.status !== 409 && TRANSIENT_STATUSES.has(error.status);
+    // fetch reports network failures as TypeError; aborts and our own errors are final
+    return error instanceof TypeError;
+  }
+
+  /**
+   * Milliseconds to wait before the given retry (0-based). Honours retry-after(-ms) and,
+   * when a rate limit is exhausted, x-ratelimit-reset-*; otherwise exponential backoff
+   * with jitter. Returns undefined when the server asks for longer than the configured maximum.
+   */
+  public delayMs(attempt: number, headers?: Headers): number | undefined {
+    const maxDelayMs = Math.max(1, this.configService.getRetryMaxDelaySeconds()) * 1000;
+    const requested = headers ? this.requestedDelayMs(headers) : undefined;
+    if (requested !== undefined) {
+      if (requested > maxDelayMs) return undefined;
+      // A little jitter so parallel requests don't all come back at the same instant
+      return requested + Math.floor(Math.random() * 250);
+    }
+    const exponential = Math.min(maxDelayMs, BASE_DELAY_MS * 2 ** attempt);
+    // "Equal jitter": at least half of the backoff, the rest random
+    return Math.floor(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private requestedDelayMs(headers: Headers): number | undefined {
+    const retryAfterMs = Number(headers.get('retry-after-ms'));
+    if (headers.get('retry-after-ms') && Number.isFinite(retryAfterMs)) return Math.max(0, retryAfterMs);
+
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    // Only the exhausted limit matters; the other one may reset much later without blocking us
+    const resets: number[] = [];
+    for (const kind of ['requests', 'tokens']) {
+      const remaining = headers.get(`x-ratelimit-remaining-${kind}`);
+      const reset = parseDuration(headers.get(`x-ratelimit-reset-${kind}`));
+      if (remaining !== null && Number(remaining) <= 0 && reset !== undefined) resets.push(reset);
+    }
+    return resets.length > 0 ? Math.max(...resets) : undefined;
+  }
+}
+
+/** Parses the OpenAI reset durations, e.g. "20ms", "1.5s", "6m0s" or "1h2m3s". */
+export function parseDuration(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = false;
+  let match;
+  while ((match = pattern.exec(value)) !== null) {
+    total += parseFloat(match[1]) * units[match[2]];
+    matched = true;
+  }
+  if (!matched) {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+  }
+  return total;
+}
@@ -1,23 +1,34 @@
 import * as vscode from 'vscode';
+import { logger } from './logger';
 import { OpenAIService } from './openAIService';
 import { EditorService } from './editorService';
+import { CompletionService, CompletionRequest } from './completionService';
+import { ConfigurationService } from './configurationService';
 
 export class SuggestionService implements vscode.CompletionItemProvider {
-  private mode: "agent" | "ask" = "agent";
   private openAIService: OpenAIService;
   private editorService: EditorService;
-  private isProcessing: boolean = false;
+  private completionService: CompletionService;
+  private configService: ConfigurationService;
   private statusBarItem: vscode.StatusBarItem;
+  private modeListener: vscode.Disposable;
+  private requestSeq: number = 0;
+  private inFlight: number = 0;
   
-  constructor(openAIService: OpenAIService, editorService: EditorService) {
+  constructor(openAIService: OpenAIService, editorService: EditorService, completionService: CompletionService, configService: ConfigurationService) {
     this.openAIService = openAIService;
     this.editorService = editorService;
+    this.completionService = completionService;
+    this.configService = configService;
     
     // Create status bar item
     this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-    this.statusBarItem.text = "$(sparkle) AI Ready";
+    this.statusBarItem.text = this.readyText();
     this.statusBarItem.tooltip = "OpenAI Agent is ready for code suggestions";
     this.statusBarItem.show();
+    this.modeListener = configService.onDidChangeMode(() => {
+      if (this.inFlight === 0) this.statusBarItem.text = this.readyText();
+    });
   }
   
   async provideCompletionItems(
@@ -26,29 +37,9 @@ export class SuggestionService implements vscode.CompletionItemProvider {
     token: vscode.CancellationToken,
     context: vscode.CompletionContext
   ): Promise<vscode.CompletionItem[] | vscode.CompletionList | null> {
-    // Check if we're already processing a suggestion to avoid multiple simultaneous requests
-    if (this.isProcessing) {
-      return null;
-    }
-    
-    if (this.mode !== "agent") { return null; }
+    if (this.configService.getMode() !== "agent") { return null; }
     try {
-      this.isProcessing = true;
-      this.statusBarItem.text = "$(sync~spin) AI Thinking...";
-      
-      // Get context to provide to OpenAI
-      const contextBeforeCursor = this.editorService.getContextBeforeCursor(30); // Increased context
-      
-      // Only generate suggestions for files with some content
-      if (!contextBeforeCursor.trim()) {
-        return null;
-      }
-      
-      // Get file language
-      const languageId = document.languageId;
-      
-      // Get completion from OpenAI
-      const completion = await this.openAIService.getCompletion(contextBeforeCursor, languageId);
+      const completion = await this.getSuggestion(document, token);
       
       if (!completion) {
         return null;
@@ -63,12 +54,12 @@ export class SuggestionService implements vscode.CompletionItemProvider {
       
       return [item];
     } catch (error: any) {
-      console.error('Error generating suggestions:', error);
+      if (token.isCancellationRequested) {
+        return null;
+      }
+      logger.error('Error generating suggestions:', error);
       vscode.window.showErrorMessage(`Error generating suggestions: ${error.message}`);
       return null;
-    } finally {
-      this.isProcessing = false;
-      this.statusBarItem.text = "$(sparkle) AI Ready";
     }
   }
   
@@ -90,26 +81,8 @@ export class SuggestionService implements vscode.CompletionItemProvider {
           context: vscode.InlineCompletionContext,
           token: vscode.CancellationToken
         ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList | null> {
-          if (self.isProcessing) {
-            return null;
-          }
-          
           try {
-            self.isProcessing = true;
-            self.statusBarItem.text = "$(sync~spin) AI Thinking...";
-            
-            // Get context to provide to OpenAI
-            const contextBeforeCursor = self.editorService.getContextBeforeCursor(30);
-            
-            if (!contextBeforeCursor.trim()) {
-              return null;
-            }
-            
-            // Get completion from OpenAI
-            const completion = await self.openAIService.getCompletion(
-              contextBeforeCursor,
-              document.languageId
-            );
+            const completion = await self.getSuggestion(document, token);
             
             if (!completion) {
               return null;
@@ -120,18 +93,65 @@ export class SuggestionService implements vscode.CompletionItemProvider {
               new vscode.Range(position, position)
             )];
           } catch (error: any) {
-            console.error('Error generating inline suggestions:', error);
+            if (!token.isCancellationRequested) {
+              logger.error('Error generating inline suggestions:', error);
+            }
             return null;
-          } finally {
-            self.isProcessing = false;
-            self.statusBarItem.text = "$(sparkle) AI Ready";
           }
         }
       }
     );
   }
+
+  /**
+   * Shared path for both providers: replays cached completions instantly, otherwise
+   * waits for the debounce delay and drops the request if a newer one arrived or
+   * the token was cancelled in the meantime.
+   */
+  private async getSuggestion(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<string | null> {
+    const seq = ++this.requestSeq;
+    
+    // Get context to provide to OpenAI
+    const request: CompletionRequest = {
+      documentUri: document.uri.toString(),
+      language: document.languageId,
+      prefix: this.editorService.getContextBeforeCursor(30),
+      suffix: this.editorService.getContextAfterCursor(10),
+      fileName: vscode.workspace.asRelativePath(document.uri)
+    };
+    
+    // Only generate suggestions for files with some content
+    if (!request.prefix.trim()) {
+      return null;
+    }
+    
+    const cached = this.completionService.getCached(request);
+    if (cached !== undefined) {
+      return cached;
+    }
+    
+    const debounceMs = this.configService.getCompletionDebounceMs();
+    if (debounceMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, debounceMs));
+    }
+    if (token.isCancellationRequested || seq !== this.requestSeq) {
+      return null;
+    }
+    
+    this.inFlight++;
+    this.statusBarItem.text = "$(sync~spin) AI Thinking...";
+    try {
+      return await this.completionService.complete(request, token);
+    } finally {
+      this.inFlight--;
+      if (this.inFlight === 0) {
+        this.statusBarItem.text = this.readyText();
+      }
+    }
+  }
   
   public dispose() {
+    this.modeListener.dispose();
     this.statusBarItem.dispose();
   }
   
@@ -143,9 +163,8 @@ export class SuggestionService implements vscode.CompletionItemProvider {
       vscode.window.showErrorMessage(`Failed to reset context: ${error.message}`);
     }
   }
-  public setMode(mode: "agent" | "ask") {
-    this.mode = mode;
-    this.statusBarItem.text = this.mode === 'agent' ? '$(sparkle) AI Ready' : '$(comment-discussion) Ask Mode';
+  private readyText(): string {
+    return this.configService.getMode() === 'agent' ? '$(sparkle) AI Ready' : '$(comment-discussion) Ask Mode';
   }
 
   public async askAtCursor(): Promise<void> {
@@ -0,0 +1,62 @@
+import { Checkpoint } from './checkpointService';
+
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: any;
+}
+
+/** What a tool knows about the agent run that called it. */
+export interface ToolCallContext {
+  /** Checkpoint of the run; write tools snapshot their targets into it */
+  checkpoint?: Checkpoint;
+}
+
+export type ToolHandler = (args: any, context: ToolCallContext) => Promise<any> | any;
+
+/** A group of tools owned by someone else, e.g. the external MCP servers. */
+export interface ToolSource {
+  list(): ToolSpec[];
+  has(name: string): boolean;
+  call(name: string, args: any): Promise<any>;
+}
+
+/**
+ * Every tool the assistant can call, whether it runs in the extension host (editor
+ * state, diagnostics) or in an MCP server process. Tool definitions sent to the API
+ * and tool call dispatch both come from here.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, { spec: ToolSpec; handler: ToolHandler }>();
+  private sources: ToolSource[] = [];
+
+  public register(spec: ToolSpec, handler: ToolHandler): void {
+    if (this.tools.has(spec.name)) throw new Error(`Tool already registered: ${spec.name}`);
+    this.tools.set(spec.name, { spec, handler });
+  }
+
+  public addSource(source: ToolSource): void {
+    this.sources.push(source);
+  }
+
+  public has(name: string): boolean {
+    return this.tools.has(name) || this.sources.some(s => s.has(name));
+  }
+
+  /** Function tool definitions in the Assistants/Chat Completions format. Callers may modify the returned objects. */
+  public definitions(): any[] {
+    const specs = [...Array.from(this.tools.values(), t => t.spec), ...this.sources.flatMap(s => s.list())];
+    return specs.map(spec => ({
+      type: 'function',
+      function: JSON.parse(JSON.stringify({ name: spec.name, description: spec.description, parameters: spec.parameters || { type: 'object' } }))
+    }));
+  }
+
+  public async call(name: string, args: any, context: ToolCallContext = {}): Promise<any> {
+    const tool = this.tools.get(name);
+    if (tool) return await tool.handler(args || {}, context);
+    const source = this.sources.find(s => s.has(name));
+    if (source) return await source.call(name, args || {});
+    return { error: `Unknown tool: ${name}` };
+  }
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConfigurationService } from './configurationService';
+
+/** Resolves absolute paths, paths relative to the first workspace folder and "folder:path" paths. */
+export function resolveWorkspaceUri(p: string): vscode.Uri {
+  if (path.isAbsolute(p)) return vscode.Uri.file(p);
+  const folders = vscode.workspace.workspaceFolders || [];
+  const prefixed = p.match(/^([^:\\/]+):(.*)$/);
+  const named = prefixed ? folders.find(f => f.name === prefixed[1]) : undefined;
+  if (named) return vscode.Uri.joinPath(named.uri, prefixed![2].replace(/^[\\/]+/, ''));
+  const root = folders[0]?.uri;
+  if (!root) throw new Error('No workspace folder is open');
+  return vscode.Uri.joinPath(root, p);
+}
+
+/**
+ * Path sandbox of the tools that run in the extension host (editor and navigation
+ * tools). It mirrors resolvePath in mcp-server/server.js: symlinks are followed and
+ * the real path has to lie in a workspace folder or in openaiAgent.allowedRoots.
+ */
+export class WorkspaceSandbox {
+  private configService: ConfigurationService;
+
+  constructor(configService: ConfigurationService) {
+    this.configService = configService;
+  }
+
+  public async resolve(p: string, folder?: string): Promise<vscode.Uri> {
+    const uri = resolveWorkspaceUri(folder && !p.includes(':') ? `${folder}:${p}` : p);
+    if (uri.scheme !== 'file') return uri;
+    const real = await realpathOfExisting(uri.fsPath);
+    const roots = [
+      ...(vscode.workspace.workspaceFolders || []).filter(f => f.uri.scheme === 'file').map(f => f.uri.fsPath),
+      ...this.configService.getAllowedRoots()
+    ];
+    for (const root of roots) {
+      if (isInside(await realpathOfExisting(path.resolve(root)), real)) return uri;
+    }
+    throw new Error(`Access denied: ${p} resolves to ${real}, which is outside the workspace`);
+  }
+}
+
+/** realpath() for paths that may not exist yet: resolves the deepest existing ancestor. */
+async function realpathOfExisting(full: string): Promise<string> {
+  const missing: string[] = [];
+  let current = full;
+  for (;;) {
+    try {
+      const real = await fs.promises.realpath(current);
+      return missing.length ? path.join(real, ...missing.reverse()) : real;
+    } catch (e: any) {
+      if (e.code !== 'ENOENT' && e.code !== 'ENOTDIR') throw e;
+      const parent = path.dirname(current);
+      if (parent === current) return full;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isInside(root: string, full: string): boolean {
+  const rel = path.relative(root, full);
+  return rel === '' || (!rel.startsWith('..' + path.sep) && rel !== '..' && !path.isAbsolute(rel));
+}
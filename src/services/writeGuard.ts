@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationService } from './configurationService';
+
+export type ConfirmWritesMode = 'always' | 'agentOnly' | 'chatOnly' | 'never';
+
+export interface WriteDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  upsert_file: 'Create or overwrite file',
+  append_file: 'Append to file',
+  apply_patch: 'Apply patch to file',
+  replace_range: 'Replace lines in file',
+  search_replace: 'Search and replace in file',
+  make_dir: 'Create directory',
+  delete_file: 'Delete file'
+};
+
+export class WriteGuard {
+  public static readonly WRITE_TOOLS = Object.keys(OPERATION_LABELS);
+  private configService: ConfigurationService;
+
+  constructor(configService: ConfigurationService) {
+    this.configService = configService;
+  }
+
+  public isWriteTool(name: string): boolean {
+    return WriteGuard.WRITE_TOOLS.includes(name);
+  }
+
+  public needsConfirmation(targetPath: string): boolean {
+    const mode = this.configService.getConfirmWrites();
+    if (mode === 'never') return false;
+    // "agentOnly" / "chatOnly" follow the interaction mode selected in the chat panel
+    const interaction = this.configService.getMode();
+    if (mode === 'agentOnly' && interaction !== 'agent') return false;
+    if (mode === 'chatOnly' && interaction !== 'ask') return false;
+    return !this.isWhitelisted(targetPath);
+  }
+
+  public isWhitelisted(targetPath: string): boolean {
+    const rel = this.toWorkspaceRelative(targetPath);
+    if (rel === undefined) return false;
+    for (const entry of this.configService.getWriteWhitelist()) {
+      const pattern = entry.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+      if (!pattern) continue;
+      // Plain paths whitelist themselves and everything below them
+      if (rel === pattern || rel.startsWith(pattern + '/')) return true;
+      if (globToRegExp(pattern).test(rel)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Asks the user to approve a write/delete operation when the configured
+   * mode and whitelist require it.
+   */
+  public async check(operation: string, targetPath: string): Promise<WriteDecision> {
+    if (!this.needsConfirmation(targetPath)) return { allowed: true };
+    const label = OPERATION_LABELS[operation] || operation;
+    const choice = await vscode.window.showWarningMessage(
+      `OpenAI Agent wants to perform an operation:\n\n${label}: ${targetPath}`,
+      { modal: true },
+      'Allow'
+    );
+    if (choice === 'Allow') return { allowed: true };
+    return { allowed: false, reason: `User denied ${operation} on ${targetPath}` };
+  }
+
+  private toWorkspaceRelative(targetPath: string): string | undefined {
+    if (!targetPath) return undefined;
+    let rel = targetPath;
+    if (path.isAbsolute(targetPath)) {
+      // Whitelist entries are relative to whichever workspace folder contains the path
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(targetPath));
+      if (!folder) return undefined;
+      rel = path.relative(folder.uri.fsPath, targetPath);
+      if (rel.startsWith('..') || path.isAbsolute(rel)) return undefined;
+    } else {
+      const prefixed = rel.match(/^([^:\\/]+):(.*)$/);
+      if (prefixed && vscode.workspace.workspaceFolders?.some(f => f.name === prefixed[1])) rel = prefixed[2];
+    }
+    return path.normalize(rel).replace(/\\/g, '/').replace(/^\.\//, '');
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (glob[i + 2] === '/') { re += '(?:.*/)?'; i += 2; } else { re += '.*'; i += 1; }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      const end = glob.indexOf('}', i);
+      if (end < 0) { re += '\\{'; continue; }
+      re += '(?:' + glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|') + ')';
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return new RegExp('^' + re + '$');
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { CommandRunner } from '../services/commandRunner';
+import { ConfigurationService } from '../services/configurationService';
+
+function runner(autoApprove: string[]): CommandRunner {
+  return new CommandRunner({ getCommandAutoApprove: () => autoApprove } as unknown as ConfigurationService);
+}
+
+suite('CommandRunner.isAutoApproved', () => {
+  const commands = runner(['npm test', 'git status', '  ls  ', '']);
+
+  test('approves a listed command with or without arguments', () => {
+    assert.strictEqual(commands.isAutoApproved('npm test'), true);
+    assert.strictEqual(commands.isAutoApproved('  npm test -- --grep foo '), true);
+    assert.strictEqual(commands.isAutoApproved('ls -la'), true);
+  });
+
+  test('matches whole words only', () => {
+    assert.strictEqual(commands.isAutoApproved('npm testx'), false);
+    assert.strictEqual(commands.isAutoApproved('git status-all'), false);
+    assert.strictEqual(commands.isAutoApproved('npm'), false);
+  });
+
+  test('rejects chained and redirected commands', () => {
+    for (const command of ['npm test; rm -rf /', 'npm test && curl x', 'npm test | sh', 'npm test `id`',
+      'npm test $(id)', 'npm test > out', 'npm test < in', 'npm test\nrm -rf /', 'npm test & id']) {
+      assert.strictEqual(commands.isAutoApproved(command), false, command);
+    }
+  });
+
+  test('ignores empty prefixes', () => {
+    assert.strictEqual(commands.isAutoApproved(''), false);
+    assert.strictEqual(runner(['', ' ']).isAutoApproved('rm -rf /'), false);
+  });
+});
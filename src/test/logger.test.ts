@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { Logger, redact } from '../services/logger';
+
+suite('redact', () => {
+  test('masks bearer tokens and OpenAI keys', () => {
+    assert.strictEqual(redact('Authorization: Bearer abc.def-123456'), 'Authorization: Bearer [REDACTED]');
+    assert.strictEqual(redact('using sk-proj-abcdef123456 now'), 'using sk-[REDACTED] now');
+  });
+
+  test('masks key-value pairs and query parameters', () => {
+    assert.strictEqual(redact('{"api_key": "hunter22"}'), '{"api_key": "[REDACTED]"}');
+    assert.strictEqual(redact('x-api-key=abc123,'), 'x-api-key=[REDACTED],');
+    assert.strictEqual(redact('GET /v1/models?key=abc&limit=5'), 'GET /v1/models?key=[REDACTED]&limit=5');
+  });
+
+  test('masks registered secrets wherever they appear', () => {
+    assert.strictEqual(redact('token was custom-secret-value!', ['custom-secret-value']), 'token was [REDACTED]!');
+  });
+
+  test('ignores registered secrets too short to be meaningful', () => {
+    assert.strictEqual(redact('a short one', ['short']), 'a short one');
+  });
+
+  test('leaves ordinary text alone', () => {
+    const text = 'Run run_123 completed in 4s (tokens: 1200)';
+    assert.strictEqual(redact(text), text);
+  });
+});
+
+suite('Logger', () => {
+  const { info, debug } = console;
+  let lines: string[];
+
+  setup(() => {
+    lines = [];
+    console.info = console.debug = (line: string) => { lines.push(line); };
+  });
+
+  teardown(() => {
+    Object.assign(console, { info, debug });
+  });
+
+  test('redacts secret keys of logged objects', () => {
+    new Logger().info('request', { headers: { Authorization: 'Bearer x', accept: 'json' }, password: 'p' });
+    assert.deepStrictEqual(lines, ['request {"headers":{"Authorization":"[REDACTED]","accept":"json"},"password":"[REDACTED]"}']);
+  });
+
+  test('redacts added secrets', () => {
+    const log = new Logger();
+    log.addSecret('my-own-api-key-value');
+    log.info('config', 'key is my-own-api-key-value');
+    assert.deepStrictEqual(lines, ['config key is [REDACTED]']);
+  });
+
+  test('drops messages below the log level', () => {
+    new Logger().debug('noise');
+    assert.deepStrictEqual(lines, []);
+  });
+});
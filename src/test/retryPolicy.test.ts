@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { HttpError, RetryPolicy, parseDuration } from '../services/retryPolicy';
+import { ConfigurationService } from '../services/configurationService';
+
+function policy(maxRetries = 3, maxDelaySeconds = 30): RetryPolicy {
+  return new RetryPolicy({
+    getRetryMaxRetries: () => maxRetries,
+    getRetryMaxDelaySeconds: () => maxDelaySeconds
+  } as unknown as ConfigurationService);
+}
+
+suite('RetryPolicy', () => {
+  test('clamps maxRetries at zero', () => {
+    assert.strictEqual(policy(-2).maxRetries, 0);
+    assert.strictEqual(policy(5).maxRetries, 5);
+  });
+
+  test('retries idempotent requests on transient failures', () => {
+    const retry = policy();
+    assert.strictEqual(retry.shouldRetry('GET', '/threads/t/runs/r', 503), true);
+    assert.strictEqual(retry.shouldRetry('GET', '/threads/t/runs/r', undefined), true);
+    assert.strictEqual(retry.shouldRetry('POST', '/threads/t/runs/r/cancel', 502), true);
+    assert.strictEqual(retry.shouldRetry('POST', '/chat/completions?x=1', 500), true);
+    assert.strictEqual(retry.shouldRetry('GET', '/threads/t', 404), false);
+    assert.strictEqual(retry.shouldRetry('GET', '/threads/t', 400), false);
+  });
+
+  test('retries requests with side effects only on 429', () => {
+    const retry = policy();
+    assert.strictEqual(retry.shouldRetry('POST', '/threads/t/messages', 429), true);
+    assert.strictEqual(retry.shouldRetry('POST', '/threads/t/messages', 500), false);
+    assert.strictEqual(retry.shouldRetry('POST', '/threads/t/runs', undefined), false);
+  });
+
+  test('never retries an exhausted quota', () => {
+    assert.strictEqual(policy().shouldRetry('GET', '/models', 429, 'insufficient_quota'), false);
+    assert.strictEqual(policy().shouldRetry('GET', '/models', 429, 'billing_hard_limit_reached'), false);
+  });
+
+  test('treats network failures and transient statuses as transient errors', () => {
+    const retry = policy();
+    assert.strictEqual(retry.isTransient(new TypeError('fetch failed')), true);
+    assert.strictEqual(retry.isTransient(new HttpError(429, 'rate limited')), true);
+    assert.strictEqual(retry.isTransient(new HttpError(409, 'conflict')), false);
+    assert.strictEqual(retry.isTransient(new HttpError(401, 'unauthorized')), false);
+    assert.strictEqual(retry.isTransient(new Error('aborted')), false);
+  });
+
+  test('backs off exponentially with jitter up to the maximum delay', () => {
+    const retry = policy(3, 5);
+    for (let i = 0; i < 20; i++) {
+      const first = retry.delayMs(0)!;
+      assert.ok(first >= 500 && first <= 1000, String(first));
+      const capped = retry.delayMs(10)!;
+      assert.ok(capped >= 2500 && capped <= 5000, String(capped));
+    }
+  });
+
+  test('honours retry-after headers', () => {
+    const retry = policy();
+    const ms = retry.delayMs(0, new Headers({ 'retry-after-ms': '1500' }))!;
+    assert.ok(ms >= 1500 && ms < 1750, String(ms));
+    const seconds = retry.delayMs(0, new Headers({ 'retry-after': '2' }))!;
+    assert.ok(seconds >= 2000 && seconds < 2250, String(seconds));
+  });
+
+  test('waits for the exhausted rate limit to reset', () => {
+    const headers = new Headers({
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '1.5s',
+      'x-ratelimit-remaining-tokens': '100',
+      'x-ratelimit-reset-tokens': '6m0s'
+    });
+    const delay = policy().delayMs(0, headers)!;
+    assert.ok(delay >= 1500 && delay < 1750, String(delay));
+  });
+
+  test('gives up when the server asks to wait longer than the maximum delay', () => {
+    assert.strictEqual(policy(3, 10).delayMs(0, new Headers({ 'retry-after': '60' })), undefined);
+  });
+});
+
+suite('parseDuration', () => {
+  test('parses OpenAI reset durations', () => {
+    assert.strictEqual(parseDuration('20ms'), 20);
+    assert.strictEqual(parseDuration('1.5s'), 1500);
+    assert.strictEqual(parseDuration('6m0s'), 360000);
+    assert.strictEqual(parseDuration('1h2m3s'), 3723000);
+  });
+
+  test('falls back to plain seconds', () => {
+    assert.strictEqual(parseDuration('3'), 3000);
+    assert.strictEqual(parseDuration(null), undefined);
+    assert.strictEqual(parseDuration('soon'), undefined);
+  });
+});
@@ -0,0 +1,11 @@
+import Module = require('module');
+
+/**
+ * The 'vscode' module only exists inside the extension host. Unit tests run in plain
+ * Node and only exercise code that doesn't call into the API, so an empty stub is enough.
+ */
+const loader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+  return request === 'vscode' ? {} : load.call(this, request, ...rest);
+};